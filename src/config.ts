@@ -8,18 +8,66 @@ function bool(v?: string, def=false) {
 
 export const config = {
   port: parseInt(process.env.PORT || '8080', 10),
+  publicUrl: (process.env.PUBLIC_URL || '').replace(/\/+$/, ''),
   env: process.env.NODE_ENV || 'development',
   logLevel: process.env.LOG_LEVEL || 'info',
   corsOrigin: process.env.CORS_ORIGIN || '*',
   sharedSecret: process.env.SHARED_SECRET || '',
+  requireApiKey: bool(process.env.REQUIRE_API_KEY, false),
+  adminSecret: process.env.ADMIN_SECRET || '',
+  // Act as an OAuth 2.1 authorization server for MCP clients (needs PUBLIC_URL as the issuer)
+  mcpOAuth: bool(process.env.MCP_OAUTH_ENABLED, false),
+  // Hide and refuse every tool not annotated read-only, for all callers
+  readOnly: bool(process.env.READ_ONLY, false),
+  // JSON file with the default and per-tenant tool policies (see README)
+  toolPolicyFile: process.env.TOOL_POLICY_FILE || '',
+  // JSON file with per key/subject/tool rate limits and daily quotas (see README)
+  rateLimitsFile: process.env.RATE_LIMITS_FILE || '',
+  // MCP sessions: idle expiry, and caps per instance and per caller (0 = none); oldest idle is evicted
+  sessionIdleTtlMinutes: Number(process.env.SESSION_IDLE_TTL_MINUTES || '30'),
+  maxSessions: parseInt(process.env.MAX_SESSIONS || '1000', 10),
+  maxSessionsPerCaller: parseInt(process.env.MAX_SESSIONS_PER_CALLER || '0', 10),
   enableDnsRebindingProtection: bool(process.env.ENABLE_DNS_REBINDING_PROTECTION, false),
   allowedHosts: (process.env.ALLOWED_HOSTS || '').split(',').map(s => s.trim()).filter(Boolean),
   databaseUrl: process.env.DATABASE_URL || '',
+  // Days of raw tool usage kept for /stats percentiles; older rows become daily rollups (0 keeps everything)
+  usageRetentionDays: parseInt(process.env.USAGE_RETENTION_DAYS || '30', 10),
+  // Days of webhook events kept for notion.recentChanges, and how often each instance checks the log for new ones
+  eventRetentionDays: parseInt(process.env.EVENT_RETENTION_DAYS || '7', 10),
+  eventPollSeconds: Number(process.env.EVENT_POLL_SECONDS || '2'),
+  // Signs the OAuth `state` of consent links (same value on every replica), and how long a link stays valid
+  oauthStateSecret: process.env.OAUTH_STATE_SECRET || '',
+  oauthStateTtlMinutes: Number(process.env.OAUTH_STATE_TTL_MINUTES || '10'),
+  // Hours a write tool's first result is kept for repeats with the same idempotency_key
+  idempotencyTtlHours: Number(process.env.IDEMPOTENCY_TTL_HOURS || '24'),
+  // "keyId:base64(32 bytes),..." – first entry encrypts new tokens, the rest stay readable for rotation
+  tokenEncryptionKeys: process.env.TOKEN_ENCRYPTION_KEYS || '',
   notion: {
     clientId: process.env.NOTION_CLIENT_ID || '',
     clientSecret: process.env.NOTION_CLIENT_SECRET || '',
     redirectUri: process.env.NOTION_REDIRECT_URI || '',
     staticToken: process.env.NOTION_STATIC_TOKEN || '',
-    usePkce: bool(process.env.NOTION_USE_PKCE, false)
+    usePkce: bool(process.env.NOTION_USE_PKCE, false),
+    // Outbound pacing per workspace; Notion allows about 3 requests per second
+    requestsPerSecond: Number(process.env.NOTION_REQUESTS_PER_SECOND || '3'),
+    queueMaxWaitMs: parseInt(process.env.NOTION_QUEUE_MAX_WAIT_MS || '30000', 10),
+    // Read cache: entry bound (0 disables) and per-tool TTL overrides as "tool=seconds,..."
+    cacheMaxEntries: parseInt(process.env.NOTION_CACHE_MAX_ENTRIES || '1000', 10),
+    cacheTtls: Object.fromEntries((process.env.NOTION_CACHE_TTLS || '').split(',').map(s => s.trim()).filter(Boolean)
+      .map(s => { const [tool, secs] = s.split('='); return [tool.trim(), Number(secs)]; })),
+    // Sent to /webhooks/notion when the webhook subscription is created; signs every event
+    webhookVerificationToken: process.env.NOTION_WEBHOOK_VERIFICATION_TOKEN || ''
+  },
+  // JSON/YAML file listing the providers to load and per-tenant enablement (see README)
+  providersFile: process.env.PROVIDERS_FILE || '',
+  // JSON array of OpenAPI-backed providers (see README)
+  openApiProvidersFile: process.env.OPENAPI_PROVIDERS_FILE || '',
+  // Enabled when GITHUB_CLIENT_ID or GITHUB_STATIC_TOKEN is set
+  github: {
+    clientId: process.env.GITHUB_CLIENT_ID || '',
+    clientSecret: process.env.GITHUB_CLIENT_SECRET || '',
+    redirectUri: process.env.GITHUB_REDIRECT_URI || '',
+    staticToken: process.env.GITHUB_STATIC_TOKEN || '',
+    scopes: (process.env.GITHUB_SCOPES || 'repo read:user').split(/[\s,]+/).filter(Boolean)
   }
 };
@@ -0,0 +1,50 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+
+// Argument names whose values never reach the audit log.
+const SECRET_KEY = /token|secret|password|authorization|api[_-]?key|cookie/i;
+const MAX_STRING = 200;
+const MAX_ITEMS = 20;
+const MAX_DEPTH = 4;
+const MAX_OBJECT_IDS = 50;
+
+/**
+ * Copies tool arguments for the audit log: secret-looking fields are replaced, long strings
+ * (page bodies, Markdown) are cut to a prefix plus their length, and big arrays and deep
+ * nesting are summarized.
+ */
+export function redactArgs(args: Record<string, unknown>): Record<string, unknown> {
+  return redact(args, 0) as Record<string, unknown>;
+}
+
+function redact(v: unknown, depth: number): unknown {
+  if (typeof v === "string") return v.length > MAX_STRING ? `${v.slice(0, MAX_STRING)}… (${v.length} chars)` : v;
+  if (v === null || typeof v !== "object") return v;
+  if (depth >= MAX_DEPTH) return Array.isArray(v) ? `[${v.length} items]` : "{…}";
+  if (Array.isArray(v)) {
+    const items = v.slice(0, MAX_ITEMS).map(x => redact(x, depth + 1));
+    if (v.length > MAX_ITEMS) items.push(`… ${v.length - MAX_ITEMS} more`);
+    return items;
+  }
+  const out: Record<string, unknown> = {};
+  for (const [k, x] of Object.entries(v)) out[k] = SECRET_KEY.test(k) ? "[redacted]" : redact(x, depth + 1);
+  return out;
+}
+
+// Ids of the objects a tool returned or touched: `id`, `*_id` and `*_ids` values in its structured result.
+export function resultObjectIds(result: CallToolResult): string[] {
+  const ids = new Set<string>();
+  const walk = (v: unknown, depth: number) => {
+    if (ids.size >= MAX_OBJECT_IDS || depth > MAX_DEPTH || v === null || typeof v !== "object") return;
+    if (Array.isArray(v)) {
+      for (const x of v) walk(x, depth + 1);
+      return;
+    }
+    for (const [k, x] of Object.entries(v)) {
+      if ((k === "id" || k.endsWith("_id")) && typeof x === "string") ids.add(x);
+      else if (k.endsWith("_ids") && Array.isArray(x)) x.filter(i => typeof i === "string").forEach(i => ids.add(i));
+      else walk(x, depth + 1);
+    }
+  };
+  walk(result.structuredContent, 0);
+  return [...ids].slice(0, MAX_OBJECT_IDS);
+}
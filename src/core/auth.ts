@@ -0,0 +1,107 @@
+import type express from "express";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { ApiKeyRecord, ApiKeyStore } from "../storage/apiKeyStore.js";
+import { ToolDeniedError, type ToolPolicy } from "./policy.js";
+
+// The authenticated caller of an MCP session.
+export interface CallerIdentity {
+  keyId: string;
+  name: string;
+  subjects: string[]; // '*' allows any subject
+  defaultSubject: string;
+  policy?: ToolPolicy | null; // per-key tool policy, on top of the global and tenant ones
+}
+
+// Identity used for the legacy SHARED_SECRET, which has always reached every tenant.
+const SHARED_SECRET_IDENTITY: CallerIdentity = { keyId: "shared-secret", name: "shared-secret", subjects: ["*"], defaultSubject: "default" };
+
+// Don't write last_used_at more than once a minute per key.
+const TOUCH_INTERVAL_MS = 60_000;
+
+export function safeEqual(a: string, b: string) {
+  const ha = createHash("sha256").update(a).digest();
+  const hb = createHash("sha256").update(b).digest();
+  return timingSafeEqual(ha, hb);
+}
+
+export function hashApiKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+// Creates a new key; the plaintext is returned once and only its hash is kept.
+export function generateApiKey(name: string, subjects: string[], defaultSubject?: string, policy?: ToolPolicy) {
+  const id = randomBytes(6).toString("hex");
+  const key = `mcp_${id}_${randomBytes(24).toString("base64url")}`;
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    key_hash: hashApiKey(key),
+    prefix: key.slice(0, 12),
+    subjects,
+    default_subject: defaultSubject ?? (subjects[0] === "*" || !subjects[0] ? "default" : subjects[0]),
+    policy: policy ?? null
+  };
+  return { key, record };
+}
+
+export function identityFromKey(rec: ApiKeyRecord): CallerIdentity {
+  return { keyId: rec.id, name: rec.name, subjects: rec.subjects, defaultSubject: rec.default_subject, policy: rec.policy };
+}
+
+/**
+ * Resolves the tenant a tool call acts for: the requested subject if the caller owns it,
+ * otherwise the caller's default. Without an identity (auth disabled) the request passes through.
+ */
+export function resolveSubject(identity: CallerIdentity | undefined, requested?: string) {
+  if (!identity) return requested;
+  if (!requested) return identity.defaultSubject;
+  if (identity.subjects.includes("*") || identity.subjects.includes(requested)) return requested;
+  throw new ToolDeniedError(`Subject '${requested}' is not available to API key '${identity.name}'. Allowed: ${identity.subjects.join(", ")}`);
+}
+
+export interface AuthOptions {
+  apiKeys: ApiKeyStore;
+  sharedSecret?: string;
+  required: boolean;
+}
+
+/**
+ * Authenticates `x-mcp-key` against the API key store (or the legacy shared secret) and
+ * exposes the caller as `res.locals.identity`.
+ */
+export function requireCaller(opts: AuthOptions) {
+  const touched = new Map<string, number>();
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const provided = (req.headers["x-mcp-key"] as string) || "";
+    if (!provided) {
+      if (opts.required) return res.status(401).json({ error: "Unauthorized" });
+      return next();
+    }
+    if (opts.sharedSecret && safeEqual(provided, opts.sharedSecret)) {
+      res.locals.identity = SHARED_SECRET_IDENTITY;
+      return next();
+    }
+    try {
+      const rec = await opts.apiKeys.findByHash(hashApiKey(provided));
+      if (!rec) return res.status(401).json({ error: "Unauthorized" });
+      res.locals.identity = identityFromKey(rec);
+      if (Date.now() - (touched.get(rec.id) ?? 0) > TOUCH_INTERVAL_MS) {
+        touched.set(rec.id, Date.now());
+        await opts.apiKeys.touch(rec.id);
+      }
+      next();
+    } catch (e) {
+      next(e);
+    }
+  };
+}
+
+// Guards admin routes with ADMIN_SECRET (`x-admin-key`); they answer `disabledStatus` when it is unset.
+export function requireAdmin(adminSecret: string, disabledStatus = 404) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!adminSecret) return res.status(disabledStatus).json({ error: "Admin API disabled. Set ADMIN_SECRET to enable it." });
+    const provided = (req.headers["x-admin-key"] as string) || "";
+    if (!provided || !safeEqual(provided, adminSecret)) return res.status(401).json({ error: "Unauthorized" });
+    next();
+  };
+}
@@ -0,0 +1,47 @@
+import { createHash } from "node:crypto";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { IdempotencyStore } from "../storage/idempotencyStore.js";
+import { ToolDeniedError } from "./policy.js";
+
+// A claimed key whose call never finished (e.g. the process died) is freed after this long.
+const PENDING_TTL_MS = 5 * 60_000;
+
+function argsHash(tool: string, args: unknown) {
+  return createHash("sha256").update(`${tool}\u0000${JSON.stringify(args ?? {})}`).digest("hex");
+}
+
+/**
+ * Remembers the first successful result of a write per (subject, idempotency key) for `ttlMs`.
+ * A repeat gets that result back without running the tool again. Reusing a key for another
+ * tool or other arguments, or while the first call is still running, is refused.
+ */
+export class Idempotency {
+  private store: IdempotencyStore;
+  private ttlMs: number;
+
+  constructor(store: IdempotencyStore, ttlMs: number) {
+    this.store = store;
+    this.ttlMs = ttlMs;
+  }
+
+  // Returns the stored result for a repeat, or undefined when this call should run (and then `finish`).
+  async begin(subject: string, key: string, tool: string, args: unknown): Promise<CallToolResult | undefined> {
+    const hash = argsHash(tool, args);
+    const existing = await this.store.claim({
+      subject, key, tool, args_hash: hash, status: "pending",
+      expires_at: new Date(Date.now() + Math.min(PENDING_TTL_MS, this.ttlMs)).toISOString()
+    });
+    if (!existing) return undefined;
+    if (existing.tool !== tool || existing.args_hash !== hash) {
+      throw new ToolDeniedError(`idempotency_key '${key}' was already used for a different ${existing.tool === tool ? "set of arguments" : `tool (${existing.tool})`}`);
+    }
+    if (existing.status === "pending") throw new ToolDeniedError(`A call with idempotency_key '${key}' is still in progress`);
+    return existing.result as CallToolResult;
+  }
+
+  // Stores a successful result; anything else frees the key so the call can be retried.
+  async finish(subject: string, key: string, result: CallToolResult | undefined) {
+    if (result && !result.isError) await this.store.complete(subject, key, result, new Date(Date.now() + this.ttlMs));
+    else await this.store.release(subject, key);
+  }
+}
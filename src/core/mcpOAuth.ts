@@ -0,0 +1,217 @@
+import type express from "express";
+import { createHash, randomBytes } from "node:crypto";
+import type { AuthorizationParams, OAuthServerProvider } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import type { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { OAuthClientInformationFull, OAuthTokenRevocationRequest, OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { InvalidGrantError, InvalidTokenError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import type { OAuthServerStore } from "../storage/oauthServerStore.js";
+import type { CallerIdentity } from "./auth.js";
+import { logger } from "../logger.js";
+
+const PENDING_TTL_S = 10 * 60;
+const CODE_TTL_S = 5 * 60;
+const ACCESS_TTL_S = 60 * 60;
+const REFRESH_TTL_S = 30 * 24 * 60 * 60;
+
+interface PendingAuthorization {
+  client_id: string;
+  client_name?: string;
+  redirect_uri: string;
+  code_challenge: string;
+  state?: string;
+  scopes: string[];
+  resource?: string;
+}
+
+interface IssuedGrant {
+  client_id: string;
+  subject: string;
+  scopes: string[];
+  resource?: string;
+  expires_at?: number; // seconds since epoch (access tokens)
+}
+
+interface CodeGrant extends IssuedGrant {
+  code_challenge: string;
+  redirect_uri: string;
+}
+
+function token() {
+  return randomBytes(32).toString("base64url");
+}
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+function expiry(seconds: number) {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[c]!));
+}
+
+// The caller behind a bearer token: bound to the one subject (workspace) it was consented for.
+export function identityFromAuthInfo(auth: AuthInfo): CallerIdentity {
+  const subject = String(auth.extra?.subject ?? "default");
+  return { keyId: `oauth:${auth.clientId}:${subject}`, name: String(auth.extra?.clientName ?? auth.clientId), subjects: [subject], defaultSubject: subject };
+}
+
+/**
+ * Accepts either an OAuth bearer token issued by `provider` or whatever `fallback` accepts
+ * (API keys). Unauthenticated requests get a 401 pointing at the protected resource metadata,
+ * which is how MCP clients discover the authorization server.
+ */
+export function requireMcpAuth(provider: OAuthServerProvider, resourceMetadataUrl: string, fallback: express.RequestHandler): express.RequestHandler {
+  const bearer = requireBearerAuth({ verifier: provider, resourceMetadataUrl });
+  return (req, res, next) => {
+    if (/^bearer /i.test(req.headers.authorization || "")) {
+      return bearer(req, res, (err?: any) => {
+        if (err || !req.auth) return next(err);
+        res.locals.identity = identityFromAuthInfo(req.auth);
+        next();
+      });
+    }
+    if (!req.headers["x-mcp-key"]) {
+      res.set("WWW-Authenticate", `Bearer error="invalid_token", error_description="Authorization required", resource_metadata="${resourceMetadataUrl}"`);
+      return res.status(401).json({ error: "invalid_token", error_description: "Authorization required" });
+    }
+    return fallback(req, res, next);
+  };
+}
+
+/**
+ * OAuth 2.1 authorization server for MCP clients (PKCE, dynamic client registration).
+ * The consent step is delegated to the provider login at `consentPath`; when that flow
+ * finishes it calls `completeAuthorization` with the connected subject, which issues the code.
+ */
+export class HubOAuthProvider implements OAuthServerProvider {
+  private store: OAuthServerStore;
+  private consentPath: string;
+
+  constructor(store: OAuthServerStore, consentPath: string) {
+    this.store = store;
+    this.consentPath = consentPath;
+  }
+
+  get clientsStore(): OAuthRegisteredClientsStore {
+    return {
+      getClient: (id) => this.store.getClient(id),
+      registerClient: async (client) => {
+        const full = { ...client, client_id: randomBytes(16).toString("hex"), client_id_issued_at: Math.floor(Date.now() / 1000) } as OAuthClientInformationFull;
+        await this.store.saveClient(full);
+        logger.info({ client_id: full.client_id, client_name: full.client_name }, "Registered MCP OAuth client");
+        return full;
+      }
+    };
+  }
+
+  async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: express.Response) {
+    const id = token();
+    const pending: PendingAuthorization = {
+      client_id: client.client_id,
+      client_name: client.client_name,
+      redirect_uri: params.redirectUri,
+      code_challenge: params.codeChallenge,
+      state: params.state,
+      scopes: params.scopes ?? [],
+      resource: params.resource?.href
+    };
+    await this.store.saveGrant("pending", digest(id), pending, expiry(PENDING_TTL_S));
+    const next = `${this.consentPath}?continue=${encodeURIComponent(id)}`;
+    const name = escapeHtml(client.client_name || client.client_id);
+    res.status(200).type("html").send(`<!doctype html>
+<html><head><meta charset="utf-8"><title>Authorize ${name}</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 32rem; margin: 4rem auto;">
+  <h1>Authorize ${name}</h1>
+  <p><strong>${name}</strong> wants to use this MCP Tool Hub on your behalf.</p>
+  <p>Continue to sign in to Notion and choose the workspace it may access.</p>
+  <p><a href="${escapeHtml(next)}">Connect Notion and authorize</a></p>
+</body></html>`);
+  }
+
+  // Finishes an authorization started in `authorize` once the user has connected `subject`.
+  async completeAuthorization(requestId: string, subject: string, res: express.Response) {
+    const pending: PendingAuthorization | null = await this.store.takeGrant("pending", digest(requestId));
+    if (!pending) {
+      res.status(400).send("❌ This authorization request has expired or was already used. Start again from your MCP client.");
+      return;
+    }
+    const code = token();
+    const grant: CodeGrant = {
+      client_id: pending.client_id,
+      subject,
+      scopes: pending.scopes,
+      resource: pending.resource,
+      code_challenge: pending.code_challenge,
+      redirect_uri: pending.redirect_uri
+    };
+    await this.store.saveGrant("code", digest(code), grant, expiry(CODE_TTL_S));
+    const target = new URL(pending.redirect_uri);
+    target.searchParams.set("code", code);
+    if (pending.state) target.searchParams.set("state", pending.state);
+    res.redirect(target.toString());
+  }
+
+  async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string) {
+    const grant: CodeGrant | null = await this.store.getGrant("code", digest(authorizationCode));
+    if (!grant || grant.client_id !== client.client_id) throw new InvalidGrantError("Invalid authorization code");
+    return grant.code_challenge;
+  }
+
+  async exchangeAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string, _codeVerifier?: string, redirectUri?: string): Promise<OAuthTokens> {
+    const grant: CodeGrant | null = await this.store.takeGrant("code", digest(authorizationCode));
+    if (!grant || grant.client_id !== client.client_id) throw new InvalidGrantError("Invalid authorization code");
+    if (redirectUri && redirectUri !== grant.redirect_uri) throw new InvalidGrantError("redirect_uri does not match the authorization request");
+    return this.issueTokens({ client_id: grant.client_id, subject: grant.subject, scopes: grant.scopes, resource: grant.resource }, client);
+  }
+
+  async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[]): Promise<OAuthTokens> {
+    // Refresh tokens rotate: the presented one is consumed.
+    const grant: IssuedGrant | null = await this.store.takeGrant("refresh", digest(refreshToken));
+    if (!grant || grant.client_id !== client.client_id) throw new InvalidGrantError("Invalid refresh token");
+    if (scopes?.some(s => !grant.scopes.includes(s))) throw new InvalidGrantError("Requested scopes exceed the original grant");
+    return this.issueTokens({ ...grant, scopes: scopes ?? grant.scopes }, client);
+  }
+
+  async verifyAccessToken(accessToken: string): Promise<AuthInfo> {
+    const grant: IssuedGrant | null = await this.store.getGrant("access", digest(accessToken));
+    if (!grant) throw new InvalidTokenError("Invalid or expired access token");
+    const client = await this.store.getClient(grant.client_id);
+    return {
+      token: accessToken,
+      clientId: grant.client_id,
+      scopes: grant.scopes,
+      expiresAt: grant.expires_at,
+      resource: grant.resource ? new URL(grant.resource) : undefined,
+      extra: { subject: grant.subject, clientName: client?.client_name }
+    };
+  }
+
+  async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest) {
+    const key = digest(request.token);
+    for (const kind of ["access", "refresh"] as const) {
+      const grant: IssuedGrant | null = await this.store.getGrant(kind, key);
+      if (grant?.client_id === client.client_id) await this.store.deleteGrant(kind, key);
+    }
+  }
+
+  private async issueTokens(grant: IssuedGrant, client: OAuthClientInformationFull): Promise<OAuthTokens> {
+    const access = token();
+    const refresh = token();
+    const expiresAt = Math.floor(Date.now() / 1000) + ACCESS_TTL_S;
+    await this.store.saveGrant("access", digest(access), { ...grant, expires_at: expiresAt }, expiry(ACCESS_TTL_S));
+    await this.store.saveGrant("refresh", digest(refresh), grant, expiry(REFRESH_TTL_S));
+    logger.info({ client_id: client.client_id, subject: grant.subject }, "Issued MCP access token");
+    return {
+      access_token: access,
+      token_type: "bearer",
+      expires_in: ACCESS_TTL_S,
+      refresh_token: refresh,
+      scope: grant.scopes.join(" ") || undefined
+    };
+  }
+}
@@ -0,0 +1,424 @@
+import type express from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { OAuthStateRecord, TokenRecord, TokenStore } from "../storage/tokenStore.js";
+import type { UsageStore } from "../storage/usageStore.js";
+import { httpWithRetry } from "../utils/http.js";
+import { logger } from "../logger.js";
+import { tokenRefreshes } from "../metrics.js";
+import { Provider, type ProviderHealth } from "./provider.js";
+
+// Refresh this long before expires_at so in-flight calls don't race the expiry.
+const REFRESH_SKEW_MS = 60_000;
+const DEFAULT_STATE_TTL_MS = 10 * 60_000;
+
+export type HttpResponse = Awaited<ReturnType<typeof httpWithRetry>>;
+
+// Who a token belongs to, derived from the token response (and, if needed, an API call).
+export interface TokenIdentity {
+  subject: string;
+  workspace_id?: string | null;
+  workspace_name?: string | null;
+  bot_id?: string | null;
+}
+
+export interface OAuth2Config {
+  label: string; // human-readable provider name for messages, e.g. "Notion"
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes?: string[];
+  scopeSeparator?: string; // default " "
+  authorizeParams?: Record<string, string>; // extra query params for the consent URL
+  clientAuth?: "basic" | "body"; // how the client secret reaches the token endpoint (default basic)
+  usePkce?: boolean;
+  staticToken?: string; // skips OAuth entirely (single-user/testing)
+  publicUrl?: string; // used to build re-authorize links in tool errors
+  // Maps a token response to its subject; defaults to "default".
+  identify?: (json: any) => TokenIdentity | Promise<TokenIdentity>;
+  // Token revocation endpoint, called with client credentials (basic auth) and `{ [tokenField]: token }`.
+  revoke?: { url: string, method?: string, tokenField?: string };
+  // HMAC key for the `state` parameter; every replica needs the same one. Random per process if unset.
+  stateSecret?: string;
+  stateTtlMs?: number; // how long a consent link stays valid (default 10 minutes)
+}
+
+// Where a consent flow goes after the code exchange.
+export interface AuthorizationRequest {
+  continuation?: string; // pending MCP client authorization
+  subject?: string; // store the token under this subject instead of the identified one
+  returnTo?: string; // redirect here afterwards, with `subject` and `status` query params
+  caller?: string; // who started the consent, for logs
+}
+
+// Result of a live call made with a subject's token.
+export interface TokenCheck {
+  ok: boolean;
+  status?: number;
+  detail?: string;
+  identity?: unknown;
+}
+
+// Raised when a subject has no usable token and the user has to go through consent again.
+export class OAuthReauthorizeError extends Error {
+  readonly reauthorizeUrl: string;
+  constructor(message: string, reauthorizeUrl: string) {
+    super(message);
+    this.name = "OAuthReauthorizeError";
+    this.reauthorizeUrl = reauthorizeUrl;
+  }
+}
+
+function isExpiring(rec: TokenRecord) {
+  return !!rec.expires_at && Date.parse(rec.expires_at) - Date.now() < REFRESH_SKEW_MS;
+}
+
+function tokenError(json: any) {
+  return json?.error_description || json?.error || JSON.stringify(json);
+}
+
+/**
+ * Stored OAuth tokens for one provider. Tokens are refreshed ahead of expiry or after a 401,
+ * with at most one refresh in flight per subject in this process.
+ */
+export class OAuth2Client {
+  readonly provider: string;
+  private cfg: OAuth2Config;
+  private store: TokenStore;
+  private refreshing = new Map<string, Promise<TokenRecord>>(); // subject -> pending refresh
+
+  constructor(provider: string, cfg: OAuth2Config, store: TokenStore) {
+    this.provider = provider;
+    this.cfg = cfg;
+    this.store = store;
+  }
+
+  get config() { return this.cfg; }
+
+  reauthorizeUrl() {
+    return `${this.cfg.publicUrl || ""}/auth/${this.provider}`;
+  }
+
+  // Runs `send` with the subject's access token, refreshing and retrying once on a 401.
+  async request(subject: string | undefined, send: (accessToken: string) => Promise<HttpResponse>): Promise<HttpResponse> {
+    if (this.cfg.staticToken) return send(this.cfg.staticToken);
+    let rec = await this.token(subject);
+    let res = await send(rec.access_token);
+    if (res.status === 401) {
+      rec = await this.refresh(rec);
+      res = await send(rec.access_token);
+      if (res.status === 401) throw await this.needsReconsent(rec);
+    }
+    return res;
+  }
+
+  authorizeUrl(state: string, codeChallenge?: string) {
+    const url = new URL(this.cfg.authorizeUrl);
+    url.searchParams.set("client_id", this.cfg.clientId);
+    url.searchParams.set("response_type", "code");
+    url.searchParams.set("redirect_uri", this.cfg.redirectUri);
+    url.searchParams.set("state", state);
+    if (this.cfg.scopes?.length) url.searchParams.set("scope", this.cfg.scopes.join(this.cfg.scopeSeparator ?? " "));
+    for (const [k, v] of Object.entries(this.cfg.authorizeParams ?? {})) url.searchParams.set(k, v);
+    if (codeChallenge) {
+      url.searchParams.set("code_challenge_method", "S256");
+      url.searchParams.set("code_challenge", codeChallenge);
+    }
+    return url.toString();
+  }
+
+  // Exchanges an authorization code from the consent callback and stores the token.
+  async exchangeCode(code: string, codeVerifier?: string, subject?: string): Promise<TokenRecord> {
+    const body: any = { grant_type: "authorization_code", code, redirect_uri: this.cfg.redirectUri };
+    if (codeVerifier) body.code_verifier = codeVerifier;
+    const { ok, status, json } = await this.tokenRequest(body);
+    if (!ok || !json?.access_token) throw new Error(`${this.cfg.label} token exchange failed (${status}): ${tokenError(json)}`);
+    const identity = this.cfg.identify ? await this.cfg.identify(json) : { subject: "default" };
+    const rec = this.toRecord(json, subject ? { ...identity, subject } : identity);
+    await this.store.upsertToken(rec);
+    return rec;
+  }
+
+  // Asks the provider to invalidate the subject's token. False when there's no endpoint or no token.
+  async revoke(subject: string): Promise<boolean> {
+    const revoke = this.cfg.revoke;
+    if (!revoke || this.cfg.staticToken) return false;
+    const rec = await this.store.getToken(this.provider, subject);
+    if (!rec) return false;
+    const headers = {
+      "Accept": "application/json",
+      "Content-Type": "application/json",
+      "Authorization": `Basic ${Buffer.from(`${this.cfg.clientId}:${this.cfg.clientSecret}`).toString("base64")}`
+    };
+    const { ok, status, json } = await httpWithRetry(revoke.method ?? "POST", revoke.url, headers, { [revoke.tokenField ?? "token"]: rec.access_token }, { retries: 1 });
+    if (!ok) throw new Error(`${this.cfg.label} token revocation failed (${status}): ${tokenError(json)}`);
+    return true;
+  }
+
+  private async token(subject?: string): Promise<TokenRecord> {
+    const s = subject || "default";
+    const rec = await this.store.getToken(this.provider, s);
+    if (!rec) {
+      throw new OAuthReauthorizeError(`No ${this.cfg.label} token for subject '${s}'. Authorize at ${this.reauthorizeUrl()}.`, this.reauthorizeUrl());
+    }
+    if (rec.needs_reconsent) throw this.authError(s);
+    return isExpiring(rec) ? this.refresh(rec) : rec;
+  }
+
+  private refresh(rec: TokenRecord): Promise<TokenRecord> {
+    let pending = this.refreshing.get(rec.subject);
+    if (!pending) {
+      pending = this.doRefresh(rec)
+        .catch(e => {
+          tokenRefreshes.inc({ provider: this.provider, outcome: e instanceof OAuthReauthorizeError ? "reauthorize" : "error" });
+          throw e;
+        })
+        .finally(() => this.refreshing.delete(rec.subject));
+      this.refreshing.set(rec.subject, pending);
+    }
+    return pending;
+  }
+
+  private async doRefresh(stale: TokenRecord): Promise<TokenRecord> {
+    // Another request may have refreshed since `stale` was read; prefer the stored record.
+    const cur = (await this.store.getToken(this.provider, stale.subject)) ?? stale;
+    if (cur.needs_reconsent) throw this.authError(cur.subject);
+    if (cur.access_token !== stale.access_token && !isExpiring(cur)) return cur;
+    if (!cur.refresh_token) throw await this.needsReconsent(cur);
+
+    const { ok, status, json } = await this.tokenRequest({ grant_type: "refresh_token", refresh_token: cur.refresh_token });
+    if (!ok || json?.error) {
+      // 400 (invalid_grant) / 401 mean the refresh token itself was rejected.
+      if (status === 400 || status === 401 || json?.error === "bad_refresh_token") throw await this.needsReconsent(cur);
+      throw new Error(`${this.cfg.label} token refresh failed (${status}): ${tokenError(json)}`);
+    }
+    const next = { ...this.toRecord(json, cur, cur), refreshed_at: new Date().toISOString() };
+    await this.store.upsertToken(next);
+    tokenRefreshes.inc({ provider: this.provider, outcome: "success" });
+    logger.info({ provider: this.provider, subject: cur.subject }, "Refreshed OAuth token");
+    return next;
+  }
+
+  private async tokenRequest(body: any) {
+    const headers: Record<string,string> = {
+      "Accept": "application/json",
+      "Content-Type": "application/json"
+    };
+    if (this.cfg.usePkce) {
+      body.client_id = this.cfg.clientId;
+    } else if (this.cfg.clientAuth === "body") {
+      body.client_id = this.cfg.clientId;
+      body.client_secret = this.cfg.clientSecret;
+    } else {
+      headers["Authorization"] = `Basic ${Buffer.from(`${this.cfg.clientId}:${this.cfg.clientSecret}`).toString("base64")}`;
+    }
+    return httpWithRetry("POST", this.cfg.tokenUrl, headers, body, { retries: 1 });
+  }
+
+  private toRecord(json: any, identity: TokenIdentity, old?: TokenRecord): TokenRecord {
+    return {
+      provider: this.provider,
+      subject: identity.subject,
+      access_token: json.access_token,
+      refresh_token: json.refresh_token ?? old?.refresh_token,
+      expires_at: json.expires_in ? new Date(Date.now() + json.expires_in * 1000).toISOString() : null,
+      scope: Array.isArray(json.scope) ? json.scope.join(" ") : (json.scope || old?.scope || null),
+      workspace_id: json.workspace_id ?? identity.workspace_id ?? old?.workspace_id,
+      workspace_name: json.workspace_name ?? identity.workspace_name ?? old?.workspace_name,
+      bot_id: json.bot_id ?? identity.bot_id ?? old?.bot_id,
+      needs_reconsent: false,
+      raw: json
+    };
+  }
+
+  private async needsReconsent(rec: TokenRecord) {
+    logger.warn({ provider: this.provider, subject: rec.subject }, "OAuth token rejected; subject needs re-consent");
+    await this.store.upsertToken({ ...rec, needs_reconsent: true });
+    return this.authError(rec.subject);
+  }
+
+  private authError(subject: string) {
+    const url = this.reauthorizeUrl();
+    return new OAuthReauthorizeError(
+      `${this.cfg.label} access for subject '${subject}' was revoked or has expired and must be re-authorized. Visit ${url} to reconnect.`,
+      url
+    );
+  }
+}
+
+/**
+ * A provider whose tools call an OAuth 2.0 API on behalf of a subject. Mounts
+ * `GET /auth/<name>` (consent) and `GET /oauth/<name>/callback`.
+ */
+export abstract class OAuth2Provider extends Provider {
+  protected oauth: OAuth2Client;
+  protected store: TokenStore;
+  private stateSecret: Buffer;
+  // Called after a successful login that was started from an MCP client's consent page.
+  onAuthorized?: (continuation: string, subject: string, res: express.Response) => Promise<void>;
+
+  constructor(name: string, cfg: OAuth2Config, store: TokenStore, usage?: UsageStore) {
+    super(name, usage);
+    this.oauth = new OAuth2Client(name, cfg, store);
+    this.store = store;
+    this.stateSecret = cfg.stateSecret ? Buffer.from(cfg.stateSecret) : randomBytes(32);
+  }
+
+  // Reports configuration problems only; it makes no API calls.
+  async health(): Promise<ProviderHealth> {
+    const cfg = this.oauth.config;
+    if (cfg.staticToken) return { ok: true, detail: "static token" };
+    if (!cfg.clientId || !cfg.redirectUri || (!cfg.usePkce && !cfg.clientSecret)) return { ok: false, detail: `${cfg.label} OAuth is not configured` };
+    return { ok: true };
+  }
+
+  // Makes a cheap authenticated call with the subject's token (e.g. "who am I").
+  checkToken?(subject: string): Promise<TokenCheck>;
+
+  // Lets other providers call with this provider's tokens, refreshed the same way as its own calls.
+  authorizedRequest(subject: string | undefined, send: (accessToken: string) => Promise<HttpResponse>) {
+    return this.oauth.request(subject, send);
+  }
+
+  // Whether consent can be started at all; an error message if not.
+  authorizationUnavailable() {
+    const cfg = this.oauth.config;
+    if (cfg.staticToken) return `Static token mode enabled; ${cfg.label} OAuth is not used.`;
+    if (!cfg.clientId || !cfg.redirectUri) return `${cfg.label} OAuth not configured. Set the client id and redirect URI.`;
+    return null;
+  }
+
+  /**
+   * Starts a consent flow and returns the provider's authorize URL. The state parameter is a
+   * random id plus its HMAC; the consent details are stored under the id until the callback
+   * uses them once, so any replica can finish the flow.
+   */
+  async beginAuthorization(req: AuthorizationRequest = {}) {
+    const id = randomBytes(24).toString("base64url");
+    let verifier: string | undefined;
+    let challenge: string | undefined;
+    if (this.oauth.config.usePkce) {
+      verifier = randomBytes(48).toString("base64url");
+      challenge = createHash("sha256").update(verifier).digest("base64url");
+    }
+    await this.store.saveOAuthState({
+      id,
+      provider: this.name,
+      subject: req.subject,
+      caller: req.caller,
+      continuation: req.continuation,
+      return_to: req.returnTo,
+      code_verifier: verifier,
+      expires_at: new Date(Date.now() + (this.oauth.config.stateTtlMs ?? DEFAULT_STATE_TTL_MS)).toISOString()
+    });
+    return this.oauth.authorizeUrl(`${id}.${this.signState(id)}`, challenge);
+  }
+
+  private signState(id: string) {
+    return createHmac("sha256", this.stateSecret).update(`${this.name}:${id}`).digest("base64url");
+  }
+
+  // Checks the signature, then consumes the stored state; a rejection says why.
+  private async redeemState(state: string): Promise<{ ok: true, state: OAuthStateRecord } | { ok: false, reason: string }> {
+    const [id, sig] = state.split(".");
+    const expected = id ? Buffer.from(this.signState(id)) : Buffer.alloc(0);
+    if (!id || !sig || Buffer.from(sig).length !== expected.length || !timingSafeEqual(Buffer.from(sig), expected)) {
+      return { ok: false, reason: "This sign-in link is not valid." };
+    }
+    const rec = await this.store.consumeOAuthState(id);
+    if (!rec || rec.provider !== this.name) return { ok: false, reason: "This sign-in link is not known to the server." };
+    if (rec.used_at) return { ok: false, reason: "This sign-in link was already used." };
+    if (Date.parse(rec.expires_at) < Date.now()) return { ok: false, reason: "This sign-in link has expired." };
+    return { ok: true, state: rec };
+  }
+
+  /**
+   * Removes a subject's token, first revoking it at the provider when asked and supported.
+   * A failed revocation is reported but doesn't stop the deletion.
+   */
+  async disconnect(subject: string, revoke = true) {
+    let revoked = false;
+    let revokeError: string | undefined;
+    if (revoke) {
+      try {
+        revoked = await this.oauth.revoke(subject);
+      } catch (e: any) {
+        revokeError = e?.message || String(e);
+        logger.warn({ provider: this.name, subject, err: revokeError }, "Token revocation failed");
+      }
+    }
+    const deleted = await this.store.deleteToken(this.name, subject);
+    if (deleted) logger.info({ provider: this.name, subject, revoked }, "Disconnected subject");
+    return { deleted, revoked, ...(revokeError ? { revoke_error: revokeError } : {}) };
+  }
+
+  mountOAuth(app: express.Express) {
+    const cfg = this.oauth.config;
+    app.get(`/auth/${this.name}`, async (req, res) => {
+      const continuation = (req.query.continue as string) || "";
+      if (cfg.staticToken) {
+        if (continuation) return res.status(400).send(`MCP client authorization needs ${cfg.label} OAuth; it is unavailable in static token mode.`);
+        return res.status(200).send("Static token mode enabled; OAuth not required.");
+      }
+      const unavailable = this.authorizationUnavailable();
+      if (unavailable) return res.status(400).send(unavailable);
+      try {
+        res.redirect(await this.beginAuthorization(continuation ? { continuation, caller: "mcp-oauth" } : {}));
+      } catch (e: any) {
+        logger.error({ provider: this.name, err: e?.message }, "Could not start OAuth consent");
+        errorPage(res, 500, `${cfg.label} sign-in failed`, "The sign-in could not be started. Try again later.");
+      }
+    });
+
+    app.get(`/oauth/${this.name}/callback`, async (req, res) => {
+      const code = (req.query.code as string) || "";
+      const state = (req.query.state as string) || "";
+      if (!state) return errorPage(res, 400, `${cfg.label} sign-in failed`, "The sign-in response has no state. Start again.");
+      let rec: OAuthStateRecord;
+      try {
+        const redeemed = await this.redeemState(state);
+        if (!redeemed.ok) {
+          logger.warn({ provider: this.name, reason: redeemed.reason }, "Rejected OAuth callback");
+          return errorPage(res, 400, `${cfg.label} sign-in failed`, `${redeemed.reason} Start the sign-in again.`);
+        }
+        rec = redeemed.state;
+      } catch (e: any) {
+        logger.error({ provider: this.name, err: e?.message }, "Could not read OAuth state");
+        return errorPage(res, 500, `${cfg.label} sign-in failed`, "The sign-in could not be completed. Try again later.");
+      }
+      const fail = (status: number, message: string) => rec.return_to
+        ? res.redirect(withQuery(rec.return_to, { subject: rec.subject ?? "", status: "error", error: message }))
+        : errorPage(res, status, `${cfg.label} sign-in failed`, message);
+      // The user declined, or the provider refused the request.
+      if (!code) return fail(400, String(req.query.error_description || req.query.error || "Missing code"));
+      if (cfg.usePkce && !rec.code_verifier) return fail(400, "Missing PKCE verifier for state");
+      try {
+        const token = await this.oauth.exchangeCode(code, rec.code_verifier ?? undefined, rec.subject ?? undefined);
+        logger.info({ provider: this.name, subject: token.subject, caller: rec.caller }, "OAuth consent completed");
+        if (rec.continuation && this.onAuthorized) return await this.onAuthorized(rec.continuation, token.subject, res);
+        if (rec.return_to) return res.redirect(withQuery(rec.return_to, { subject: token.subject, status: "connected" }));
+        res.status(200).send(`✅ ${cfg.label} authorized. You can close this tab.`);
+      } catch (e: any) {
+        fail(500, `${cfg.label} OAuth failed: ${e.message}`);
+      }
+    });
+  }
+}
+
+function withQuery(url: string, params: Record<string, string>) {
+  const u = new URL(url);
+  for (const [k, v] of Object.entries(params)) u.searchParams.set(k, v);
+  return u.toString();
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function errorPage(res: express.Response, status: number, title: string, message: string) {
+  res.status(status).type("html").send(
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>` +
+    `<body><h1>❌ ${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`
+  );
+}
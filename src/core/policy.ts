@@ -0,0 +1,123 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { CallerIdentity } from "./auth.js";
+
+/**
+ * A set of rules restricting which tools a caller or tenant may see and call.
+ * - tools: glob rules in order, last match wins; `!` denies (`["notion.*", "!notion.archivePage"]`).
+ *   With only deny rules (or none) everything else stays allowed.
+ * - read_only: hide every tool not annotated readOnlyHint.
+ * - confirm_writes: ask the user (MCP elicitation) before running a write tool.
+ * - constraints: tool glob -> argument path -> allowed values (globs), e.g.
+ *   `{ "notion.createPage": { "parent.page_id": ["abc*"] } }`.
+ */
+export const toolPolicySchema = z.object({
+  tools: z.array(z.string().min(1)).optional(),
+  read_only: z.boolean().optional(),
+  confirm_writes: z.boolean().optional(),
+  constraints: z.record(z.record(z.array(z.string()).min(1))).optional()
+}).strict();
+export type ToolPolicy = z.infer<typeof toolPolicySchema>;
+
+const policyFileSchema = z.object({
+  default: toolPolicySchema.optional(),
+  tenants: z.record(toolPolicySchema).default({})
+}).strict();
+export type PolicyFile = z.infer<typeof policyFileSchema>;
+
+export class ToolDeniedError extends Error {}
+
+export interface PolicyTool {
+  name: string; // full name, e.g. notion.createPage
+  annotations?: ToolAnnotations;
+}
+
+export type PolicyDecision = { allowed: false, reason: string } | { allowed: true, confirm: boolean };
+
+function globToRegExp(glob: string) {
+  const src = glob.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${src}$`);
+}
+
+export function globMatch(glob: string, value: string) {
+  return globToRegExp(glob).test(value);
+}
+
+function argAt(args: any, path: string): unknown {
+  return path.split(".").reduce((v, k) => (v == null ? undefined : v[k]), args);
+}
+
+export function isWrite(tool: PolicyTool) {
+  return tool.annotations?.readOnlyHint !== true;
+}
+
+function allowedByRules(rules: string[] | undefined, name: string) {
+  if (!rules?.length) return true;
+  let allowed = rules.every(r => r.startsWith("!"));
+  for (const rule of rules) {
+    const deny = rule.startsWith("!");
+    if (globMatch(deny ? rule.slice(1) : rule, name)) allowed = !deny;
+  }
+  return allowed;
+}
+
+// Loads TOOL_POLICY_FILE: `{ "default": {...}, "tenants": { "<subject>": {...} } }`.
+export function loadPolicyFile(path: string): PolicyFile {
+  if (!path) return { tenants: {} };
+  const parsed = policyFileSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!parsed.success) throw new Error(`Invalid tool policy file ${path}: ${parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  return parsed.data;
+}
+
+/**
+ * Evaluates the global policy (READ_ONLY plus the file's default), the tenant's policy and the
+ * caller's key policy. A tool must pass every layer; any layer can make it read-only or ask for confirmation.
+ */
+export class ToolPolicies {
+  private file: PolicyFile;
+  private readOnly: boolean;
+
+  constructor(file: PolicyFile, readOnly = false) {
+    this.file = file;
+    this.readOnly = readOnly;
+  }
+
+  private layers(identity: CallerIdentity | undefined, subject: string | undefined): ToolPolicy[] {
+    const layers: ToolPolicy[] = [{ read_only: this.readOnly }];
+    if (this.file.default) layers.push(this.file.default);
+    const tenant = subject ? this.file.tenants[subject] : undefined;
+    if (tenant) layers.push(tenant);
+    if (identity?.policy) layers.push(identity.policy);
+    return layers;
+  }
+
+  // Whether a session should list the tool at all, judged for the caller's default subject.
+  isVisible(tool: PolicyTool, identity: CallerIdentity | undefined) {
+    return this.ruleDenial(tool, this.layers(identity, identity?.defaultSubject)) === null;
+  }
+
+  check(tool: PolicyTool, identity: CallerIdentity | undefined, subject: string | undefined, args: any): PolicyDecision {
+    const layers = this.layers(identity, subject);
+    const denial = this.ruleDenial(tool, layers);
+    if (denial) return { allowed: false, reason: denial };
+    for (const layer of layers) {
+      for (const [toolGlob, fields] of Object.entries(layer.constraints ?? {})) {
+        if (!globMatch(toolGlob, tool.name)) continue;
+        for (const [path, allowed] of Object.entries(fields)) {
+          const value = argAt(args, path);
+          if (typeof value !== "string" || !allowed.some(g => globMatch(g, value))) {
+            return { allowed: false, reason: `argument '${path}' must be one of: ${allowed.join(", ")}` };
+          }
+        }
+      }
+    }
+    return { allowed: true, confirm: isWrite(tool) && layers.some(l => l.confirm_writes) };
+  }
+
+  private ruleDenial(tool: PolicyTool, layers: ToolPolicy[]) {
+    if (isWrite(tool) && layers.some(l => l.read_only)) return "read-only mode";
+    if (!layers.every(l => allowedByRules(l.tools, tool.name))) return "not in the allowed tools";
+    return null;
+  }
+}
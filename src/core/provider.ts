@@ -1,17 +1,116 @@
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { z, ZodTypeAny } from "zod";
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ReadResourceResult, Resource, ServerNotification, ServerRequest, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
+import { z, ZodObject, ZodTypeAny } from "zod";
+import { currentLogContext, logger, withLogContext } from "../logger.js";
+import { toolCallDuration, toolCalls } from "../metrics.js";
+import type { AuditRecord, AuditStore } from "../storage/auditStore.js";
+import type { ProviderEvent } from "../storage/eventStore.js";
 import type { UsageStore } from "../storage/usageStore.js";
+import { redactArgs, resultObjectIds } from "./audit.js";
+import { resolveSubject, type CallerIdentity } from "./auth.js";
+import type { Idempotency } from "./idempotency.js";
+import { isWrite, ToolDeniedError, type ToolPolicies } from "./policy.js";
+
+// Per-request context from the MCP SDK (abort signal, progress token, notifications).
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 export type ToolSpec = {
   name: string;
   title: string;
   description: string;
   inputSchema: ZodTypeAny;
-handler: (args: any) => Promise<CallToolResult>;};
+  // Shape of `structuredContent`; tools that declare one must return it (see structuredResult).
+  outputSchema?: ZodTypeAny;
+  // MCP hints (readOnlyHint, destructiveHint, idempotentHint, ...) so clients can confirm risky calls.
+  annotations?: ToolAnnotations;
+handler: (args: any, extra?: ToolExtra) => Promise<CallToolResult>;};
+
+/**
+ * An MCP resource: a fixed `uri`, or a `template` (RFC 6570, e.g. notion://page/{id}) whose
+ * `list` enumerates concrete resources. Resources are read for the caller's default subject.
+ * Reads are governed by the policy of `tool`, the tool that exposes the same data, so a key
+ * can't read through a resource what it may not call; `toolArgs` maps template variables to
+ * that tool's arguments for policy constraints.
+ */
+export type ResourceSpec = {
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+  uri?: string;
+  template?: string;
+  tool: string;
+  toolArgs?: (vars: Record<string, string>) => Record<string, unknown>;
+  list?: (subject: string | undefined, extra: ToolExtra) => Promise<Resource[]>;
+  read: (uri: URL, vars: Record<string, string>, subject: string | undefined, extra: ToolExtra) => Promise<ReadResourceResult>;
+};
+
+export const outputFormat = z.enum(["raw", "compact", "markdown"]).default("compact")
+  .describe("raw: upstream API JSON; compact: flattened essentials (ids, urls, plain-text titles and values); markdown: human-readable text");
+export type OutputFormat = z.infer<typeof outputFormat>;
+
+// Builds a result carrying both structuredContent and its text form (compact JSON unless given).
+export function structuredResult(data: Record<string, unknown>, text?: string): CallToolResult {
+  return { content: [{ type: "text", text: text ?? JSON.stringify(data) }], structuredContent: data };
+}
+
+// Sends a progress notification if the client asked for one; a no-op otherwise.
+export async function reportProgress(extra: ToolExtra | undefined, progress: number, total?: number, message?: string) {
+  const progressToken = extra?._meta?.progressToken;
+  if (progressToken === undefined) return;
+  await extra!.sendNotification({
+    method: "notifications/progress",
+    params: { progressToken, progress, ...(total !== undefined ? { total } : {}), ...(message ? { message } : {}) }
+  });
+}
+// What a session knows about its caller when tools are registered.
+export interface SessionContext {
+  identity?: CallerIdentity;
+  policies?: ToolPolicies;
+  // Whether a provider is enabled for the subject a call resolves to (per-tenant enablement).
+  providerEnabled?: (provider: string, subject: string | undefined) => boolean;
+  // Write tools take `idempotency_key` when set; every call is recorded in `audit` when set.
+  idempotency?: Idempotency;
+  audit?: AuditStore;
+}
+
+const idempotencyField = {
+  idempotency_key: z.string().min(1).max(200).optional()
+    .describe("Retry-safe key: repeating a call with the same key returns the first result instead of writing again")
+};
+
+// Resources an event touched: subscribers to `uris` get resources/updated; `listChanged` tells every session of the subject.
+export interface ResourceChanges {
+  uris: string[];
+  listChanged: boolean;
+}
+
+export interface ProviderHealth {
+  ok: boolean;
+  detail?: string;
+}
+
+// Asks the user to approve a write through MCP elicitation; clients without it can't confirm.
+async function confirmCall(server: McpServer, toolName: string, args: any) {
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    throw new ToolDeniedError(`Tool '${toolName}' requires confirmation, but this client does not support elicitation`);
+  }
+  const { subject, ...shown } = args ?? {};
+  const answer = await server.server.elicitInput({
+    message: `Allow ${toolName} to run with these arguments?\n${JSON.stringify(shown, null, 2)}`,
+    requestedSchema: { type: "object", properties: { confirm: { type: "boolean", title: "Run this tool" } }, required: ["confirm"] }
+  });
+  if (answer.action !== "accept" || answer.content?.confirm !== true) {
+    throw new ToolDeniedError(`Tool '${toolName}' was not confirmed`);
+  }
+}
+
 export abstract class Provider {
   readonly name: string;
   protected tools: ToolSpec[] = [];
+  protected resources: ResourceSpec[] = [];
   protected usage?: UsageStore;
   constructor(name: string, usage?: UsageStore) {
     this.name = name;
@@ -20,34 +119,165 @@ export abstract class Provider {
   toolFullName(t: ToolSpec) { return `${this.name}.${t.name}`; }
 
   registerTool(spec: ToolSpec) { this.tools.push(spec); }
+  registerResource(spec: ResourceSpec) { this.resources.push(spec); }
 
   listTools() {
     return this.tools.map(t => ({
       name: this.toolFullName(t),
       description: t.description,
-      inputSchema: t.inputSchema._def
+      inputSchema: t.inputSchema._def,
+      outputSchema: t.outputSchema?._def,
+      annotations: t.annotations
     }));
   }
 
   mountOAuth?(app: any): void;
+  // Other HTTP routes, such as webhook receivers.
+  mountRoutes?(app: any): void;
+  // Called on every instance for each event in the event log, in order.
+  handleEvent?(event: ProviderEvent): ResourceChanges | undefined;
+  // Lifecycle hooks, called by the registry at startup, shutdown and on /health.
+  init?(): Promise<void>;
+  dispose?(): Promise<void>;
+  health?(): Promise<ProviderHealth>;
 
-  registerAll(server: McpServer) {
+  registerAll(server: McpServer, ctx: SessionContext = {}) {
     for (const t of this.tools) {
-      server.registerTool(this.toolFullName(t), {
+      const name = this.toolFullName(t);
+      if (ctx.policies && !ctx.policies.isVisible({ name, annotations: t.annotations }, ctx.identity)) continue;
+      const idempotent = !!ctx.idempotency && isWrite({ name, annotations: t.annotations }) && t.inputSchema instanceof ZodObject;
+      server.registerTool(name, {
         title: t.title,
         description: t.description,
-        inputSchema: t.inputSchema
-      }, async (args) => {
+        inputSchema: idempotent ? (t.inputSchema as ZodObject<any>).extend(idempotencyField) : t.inputSchema,
+        outputSchema: t.outputSchema,
+        annotations: t.annotations
+      }, (input: any, extra: ToolExtra) => withLogContext({ correlation_id: randomUUID(), session_id: extra.sessionId, tool: name }, async () => {
+        const start = Date.now();
+        const { idempotency_key: idempotencyKey, ...args } = input ?? {};
+        let subject: string | undefined = args.subject;
+        let replayed = false;
+        const finish = (outcome: "success" | "error" | "denied", err?: string) => {
+          const ms = Date.now() - start;
+          toolCalls.inc({ provider: this.name, tool: t.name, outcome });
+          toolCallDuration.observe({ provider: this.name, tool: t.name }, ms / 1000);
+          logger[outcome === "success" ? "info" : "warn"]({ subject, outcome, ms, err, replayed: replayed || undefined }, "Tool call");
+          return ms;
+        };
+        const audit = (entry: Pick<AuditRecord, "outcome" | "error_message" | "object_ids">) => this.audit(ctx, {
+          ...entry,
+          correlation_id: currentLogContext()?.correlation_id,
+          session_id: extra.sessionId,
+          subject,
+          tool: t.name,
+          args: redactArgs(args),
+          idempotency_key: idempotencyKey,
+          replayed
+        });
+        try {
+          // Tools always act for a subject the authenticated caller owns.
+          subject = resolveSubject(ctx.identity, args.subject);
+          if (ctx.providerEnabled && !ctx.providerEnabled(this.name, subject)) {
+            throw new ToolDeniedError(`Provider '${this.name}' is not enabled for subject '${subject ?? "default"}'`);
+          }
+          const decision = ctx.policies?.check({ name, annotations: t.annotations }, ctx.identity, subject, args);
+          if (decision && !decision.allowed) throw new ToolDeniedError(`Tool '${name}' denied by policy: ${decision.reason}`);
+          const key = idempotent && idempotencyKey ? idempotencyKey as string : undefined;
+          let out = key ? await ctx.idempotency!.begin(subject ?? "default", key, name, { ...args, subject }) : undefined;
+          replayed = !!out;
+          if (!out) {
+            let ran: CallToolResult | undefined;
+            try {
+              if (decision?.confirm) await confirmCall(server, name, args);
+              ran = await t.handler({ ...args, subject }, extra);
+            } finally {
+              if (key) await ctx.idempotency!.finish(subject ?? "default", key, ran);
+            }
+            out = ran!;
+          }
+          await this.usage?.log({ provider: this.name, tool_name: t.name, subject, success: true, outcome: "success", latency_ms: finish("success"), cache: currentLogContext()?.cache });
+          await audit({ outcome: "success", object_ids: resultObjectIds(out) });
+          return out;
+        } catch (e: any) {
+          const outcome = e instanceof ToolDeniedError ? "denied" : "error";
+          const message = e?.message || String(e);
+          await this.usage?.log({ provider: this.name, tool_name: t.name, subject, success: false, outcome, latency_ms: finish(outcome, message), error_message: message, cache: currentLogContext()?.cache });
+          await audit({ outcome, error_message: message });
+          throw e;
+        }
+      }));
+    }
+    for (const r of this.resources) this.registerResourceWith(server, r, ctx);
+  }
+
+  // The audit log must not take tools down with it; failures to write it are logged instead.
+  private async audit(ctx: SessionContext, entry: Omit<AuditRecord, "provider" | "key_id" | "caller">) {
+    if (!ctx.audit) return;
+    try {
+      await ctx.audit.append({ ...entry, provider: this.name, key_id: ctx.identity?.keyId, caller: ctx.identity?.name });
+    } catch (e: any) {
+      logger.error({ err: e?.message }, "Failed to write audit log");
+    }
+  }
+
+  private registerResourceWith(server: McpServer, r: ResourceSpec, ctx: SessionContext) {
+    const toolName = `${this.name}.${r.tool}`;
+    const policyTool = { name: toolName, annotations: this.tools.find(t => t.name === r.tool)?.annotations };
+    if (ctx.policies && !ctx.policies.isVisible(policyTool, ctx.identity)) return;
+    // Usage and metrics record resource reads as `resource:<name>` next to the provider's tools.
+    const usageName = `resource:${r.name}`;
+    const allowedSubject = () => {
+      const subject = resolveSubject(ctx.identity, undefined);
+      if (ctx.providerEnabled && !ctx.providerEnabled(this.name, subject)) {
+        throw new ToolDeniedError(`Provider '${this.name}' is not enabled for subject '${subject ?? "default"}'`);
+      }
+      return subject;
+    };
+    const read = (uri: URL, vars: Record<string, string>, extra: ToolExtra) =>
+      withLogContext({ correlation_id: randomUUID(), session_id: extra.sessionId, tool: `${this.name}.${usageName}` }, async () => {
         const start = Date.now();
+        let subject: string | undefined;
+        const finish = (outcome: "success" | "error" | "denied", err?: string) => {
+          const ms = Date.now() - start;
+          toolCalls.inc({ provider: this.name, tool: usageName, outcome });
+          toolCallDuration.observe({ provider: this.name, tool: usageName }, ms / 1000);
+          logger[outcome === "success" ? "info" : "warn"]({ subject, outcome, ms, err, uri: uri.href }, "Resource read");
+          return ms;
+        };
         try {
-          const out = await t.handler(args);
-          await this.usage?.log({ provider: this.name, tool_name: t.name, success: true, latency_ms: Date.now()-start });
+          subject = allowedSubject();
+          const decision = ctx.policies?.check(policyTool, ctx.identity, subject, r.toolArgs?.(vars) ?? vars);
+          if (decision && !decision.allowed) throw new ToolDeniedError(`Resource '${uri.href}' denied by policy for ${toolName}: ${decision.reason}`);
+          if (decision?.confirm) await confirmCall(server, toolName, vars);
+          const out = await r.read(uri, vars, subject, extra);
+          await this.usage?.log({ provider: this.name, tool_name: usageName, subject, success: true, outcome: "success", latency_ms: finish("success"), cache: currentLogContext()?.cache });
           return out;
         } catch (e: any) {
-          await this.usage?.log({ provider: this.name, tool_name: t.name, success: false, latency_ms: Date.now()-start, error_message: e?.message || String(e) });
+          const outcome = e instanceof ToolDeniedError ? "denied" : "error";
+          const message = e?.message || String(e);
+          await this.usage?.log({ provider: this.name, tool_name: usageName, subject, success: false, outcome, latency_ms: finish(outcome, message), error_message: message, cache: currentLogContext()?.cache });
           throw e;
         }
       });
+
+    const metadata = { title: r.title, description: r.description, mimeType: r.mimeType };
+    if (r.uri) {
+      server.registerResource(`${this.name}.${r.name}`, r.uri, metadata, (uri, extra) => read(uri, {}, extra));
+      return;
     }
+    const list = r.list;
+    const template = new ResourceTemplate(r.template!, {
+      // A failed listing (e.g. not connected yet) shouldn't break resources/list for every provider.
+      list: list && (async (extra) => {
+        try {
+          return { resources: await list(allowedSubject(), extra) };
+        } catch (e: any) {
+          logger.warn({ err: e?.message, resource: r.name }, "Resource listing failed");
+          return { resources: [] };
+        }
+      })
+    });
+    server.registerResource(`${this.name}.${r.name}`, template, metadata, (uri, vars, extra) =>
+      read(uri, Object.fromEntries(Object.entries(vars).map(([k, v]) => [k, Array.isArray(v) ? v.join(",") : v])), extra));
   }
 }
@@ -0,0 +1,68 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, isAbsolute, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import YAML from "yaml";
+import { z } from "zod";
+import type { EventStore } from "../storage/eventStore.js";
+import type { TokenStore } from "../storage/tokenStore.js";
+import type { UsageStore } from "../storage/usageStore.js";
+import { Provider } from "./provider.js";
+
+export interface ProviderContext {
+  tokenStore: TokenStore;
+  usageStore?: UsageStore;
+  eventStore?: EventStore; // webhook event log, for providers that receive webhooks
+  publicUrl?: string;
+  providers?: (name: string) => Provider | undefined; // other loaded providers, looked up at call time
+  baseDir: string; // directory relative paths in settings resolve against
+}
+
+/**
+ * Builds provider(s) from an entry's settings. Local modules export one as `createProvider`
+ * (or as their default export).
+ */
+export type ProviderFactory = (settings: Record<string, any>, ctx: ProviderContext) => Provider | Provider[] | Promise<Provider | Provider[]>;
+
+const providersFileSchema = z.object({
+  providers: z.array(z.object({
+    // A built-in name ("notion", "github", "openapi") or a path to a local module
+    module: z.string().min(1),
+    settings: z.record(z.any()).default({})
+  })).min(1),
+  // subject -> provider names enabled for it; unlisted subjects get every provider
+  tenants: z.record(z.array(z.string())).default({})
+}).strict();
+
+function isPath(module: string) {
+  return module.startsWith(".") || isAbsolute(module);
+}
+
+async function factoryFor(module: string, baseDir: string, builtins: Record<string, ProviderFactory>): Promise<ProviderFactory> {
+  if (!isPath(module)) {
+    const builtin = builtins[module];
+    if (!builtin) throw new Error(`Unknown provider '${module}'. Built-ins: ${Object.keys(builtins).join(", ")}; use a ./path for local modules.`);
+    return builtin;
+  }
+  const mod = await import(pathToFileURL(resolve(baseDir, module)).href);
+  const factory = mod.createProvider ?? mod.default;
+  if (typeof factory !== "function") throw new Error(`Provider module ${module} must export createProvider(settings, ctx)`);
+  return factory;
+}
+
+// Reads PROVIDERS_FILE (JSON or YAML) and instantiates every listed provider in order.
+export async function loadProvidersFile(file: string, ctx: Omit<ProviderContext, "baseDir">, builtins: Record<string, ProviderFactory>) {
+  const text = readFileSync(file, "utf8");
+  const parsed = providersFileSchema.safeParse(extname(file) === ".json" ? JSON.parse(text) : YAML.parse(text));
+  if (!parsed.success) throw new Error(`Invalid providers file ${file}: ${parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  const baseDir = dirname(resolve(file));
+  const providers: Provider[] = [];
+  for (const entry of parsed.data.providers) {
+    const factory = await factoryFor(entry.module, baseDir, builtins);
+    const created = await factory(entry.settings, { ...ctx, baseDir });
+    for (const p of Array.isArray(created) ? created : [created]) {
+      if (!(p instanceof Provider)) throw new Error(`Provider module ${entry.module} did not return a Provider`);
+      providers.push(p);
+    }
+  }
+  return { providers, tenants: parsed.data.tenants };
+}
@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { RateLimitStore } from "../storage/rateLimitStore.js";
+import type { UsageStore } from "../storage/usageStore.js";
+import { logger } from "../logger.js";
+import { toolCalls } from "../metrics.js";
+import { resolveSubject, type CallerIdentity } from "./auth.js";
+import { globMatch } from "./policy.js";
+
+// JSON-RPC server error code for rejected calls (the implementation-defined range is -32000..-32099).
+export const RATE_LIMITED = -32029;
+
+/**
+ * One limit. `scope` decides what is counted together:
+ * - key: every call made with one API key (or OAuth client)
+ * - subject: every call for one tenant, whichever key makes it
+ * - tool: calls to one tool by one key for one subject
+ * `tools` (globs) restricts the rule to matching tools. A rule has a token bucket
+ * (`per_minute`, bursting to `burst`), a daily quota (UTC), or both. `id` names the rule's
+ * counters; without one they're named after its scope and tools, so editing the limits or
+ * reordering the file keeps the counts.
+ */
+export const rateLimitRuleSchema = z.object({
+  id: z.string().min(1).max(64).optional(),
+  scope: z.enum(["key", "subject", "tool"]),
+  tools: z.array(z.string().min(1)).optional(),
+  per_minute: z.number().positive().optional(),
+  burst: z.number().int().positive().optional(),
+  daily_quota: z.number().int().positive().optional()
+}).strict().refine(r => r.per_minute || r.daily_quota, { message: "set per_minute, daily_quota or both" });
+export type RateLimitRule = z.infer<typeof rateLimitRuleSchema>;
+
+export function ruleId(rule: RateLimitRule) {
+  if (rule.id) return rule.id;
+  const tools = rule.tools ? [...rule.tools].sort() : [];
+  return createHash("sha256").update(JSON.stringify([rule.scope, tools])).digest("hex").slice(0, 16);
+}
+
+const rateLimitFileSchema = z.object({ limits: z.array(rateLimitRuleSchema) }).strict().superRefine(({ limits }, ctx) => {
+  const ids = limits.map(ruleId);
+  ids.forEach((id, i) => {
+    const first = ids.indexOf(id);
+    if (first !== i) ctx.addIssue({ code: "custom", path: ["limits", i], message: `shares its counters with limits.${first} (same scope and tools); give one of them an id` });
+  });
+});
+
+// Loads RATE_LIMITS_FILE: `{ "limits": [ { "scope": "key", "per_minute": 60 }, ... ] }`.
+export function loadRateLimitFile(path: string): RateLimitRule[] {
+  if (!path) return [];
+  const parsed = rateLimitFileSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!parsed.success) throw new Error(`Invalid rate limit file ${path}: ${parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  return parsed.data.limits;
+}
+
+export class RateLimitError extends Error {
+  readonly data: { scope: string, retry_after_seconds?: number };
+  constructor(message: string, data: { scope: string, retry_after_seconds?: number }) {
+    super(message);
+    this.name = "RateLimitError";
+    this.data = data;
+  }
+}
+
+/**
+ * Applies the configured rules to tool calls. Token buckets are checked before quotas so a
+ * call refused for speed doesn't use up the day's quota, and whatever a refused call took
+ * from other rules is given back.
+ */
+export class RateLimiter {
+  private rules: RateLimitRule[];
+  private store: RateLimitStore;
+
+  constructor(rules: RateLimitRule[], store: RateLimitStore) {
+    this.rules = rules;
+    this.store = store;
+  }
+
+  get enabled() { return this.rules.length > 0; }
+
+  async check(identity: CallerIdentity | undefined, subject: string | undefined, tool: string) {
+    const matching = this.rules
+      .filter(rule => !rule.tools || rule.tools.some(g => globMatch(g, tool)))
+      .map(rule => ({ rule, key: `${ruleId(rule)}:${this.scopeKey(rule, identity, subject, tool)}` }));
+    const day = new Date().toISOString().slice(0, 10);
+    const taken: { key: string, capacity: number }[] = [];
+    const counted: string[] = [];
+    try {
+      for (const { rule, key } of matching) {
+        if (!rule.per_minute) continue;
+        const capacity = rule.burst ?? Math.max(1, Math.ceil(rule.per_minute));
+        const { allowed, retryAfterMs } = await this.store.takeToken(key, capacity, rule.per_minute / 60);
+        if (!allowed) {
+          const retry = Math.ceil(retryAfterMs / 1000);
+          throw new RateLimitError(`Rate limit exceeded for ${this.describe(rule, identity, subject, tool)}: ${rule.per_minute} calls per minute. Retry in ${retry}s.`, { scope: rule.scope, retry_after_seconds: retry });
+        }
+        taken.push({ key, capacity });
+      }
+      for (const { rule, key } of matching) {
+        if (!rule.daily_quota) continue;
+        const { allowed } = await this.store.consumeQuota(key, day, rule.daily_quota);
+        if (!allowed) {
+          throw new RateLimitError(`Daily quota of ${rule.daily_quota} calls used up for ${this.describe(rule, identity, subject, tool)}. It resets at 00:00 UTC.`, { scope: rule.scope });
+        }
+        counted.push(key);
+      }
+    } catch (e) {
+      if (e instanceof RateLimitError) {
+        await Promise.all([
+          ...taken.map(({ key, capacity }) => this.store.refundToken(key, capacity)),
+          ...counted.map(key => this.store.refundQuota(key, day))
+        ]).catch(err => logger.error({ err: err?.message, tool }, "Failed to refund rate limit counters"));
+      }
+      throw e;
+    }
+  }
+
+  private scopeKey(rule: RateLimitRule, identity: CallerIdentity | undefined, subject: string | undefined, tool: string) {
+    const key = identity?.keyId ?? "anonymous";
+    if (rule.scope === "key") return `key:${key}`;
+    if (rule.scope === "subject") return `subject:${subject ?? "default"}`;
+    return `tool:${key}:${subject ?? "default"}:${tool}`;
+  }
+
+  private describe(rule: RateLimitRule, identity: CallerIdentity | undefined, subject: string | undefined, tool: string) {
+    if (rule.scope === "key") return `key '${identity?.name ?? "anonymous"}'`;
+    if (rule.scope === "subject") return `subject '${subject ?? "default"}'`;
+    return `tool '${tool}'`;
+  }
+}
+
+/**
+ * Checks `tools/call` requests as they arrive on a connected transport and answers rejected ones
+ * with a JSON-RPC error. This runs ahead of the MCP server because the SDK turns errors thrown
+ * by tool handlers into ordinary tool results. Calls to names not in `tools` go straight to the
+ * server, which rejects them, so client-chosen names never become limit keys, metric labels or usage rows.
+ */
+export function enforceRateLimits(transport: Transport, limiter: RateLimiter, identity: CallerIdentity | undefined, tools: ReadonlySet<string>, usage?: UsageStore) {
+  const forward = transport.onmessage;
+  if (!forward) throw new Error("enforceRateLimits must be called after the server is connected");
+  transport.onmessage = (message, extra) => {
+    if (!isJSONRPCRequest(message) || message.method !== "tools/call") return forward(message, extra);
+    const tool = String(message.params?.name ?? "");
+    if (!tools.has(tool)) return forward(message, extra);
+    const args: any = message.params?.arguments;
+    let subject: string | undefined;
+    try {
+      subject = resolveSubject(identity, args?.subject);
+    } catch {
+      return forward(message, extra); // the tool handler reports the denied subject
+    }
+    limiter.check(identity, subject, tool).then(() => forward(message, extra), async (e) => {
+      if (!(e instanceof RateLimitError)) {
+        // Don't take tools down with the limit store; let the call through.
+        logger.error({ err: e?.message, tool }, "Rate limit check failed");
+        return forward(message, extra);
+      }
+      const [provider, ...rest] = tool.split(".");
+      toolCalls.inc({ provider, tool: rest.join("."), outcome: "denied" });
+      await usage?.log({ provider, tool_name: rest.join("."), subject, success: false, outcome: "denied", latency_ms: 0, error_message: e.message });
+      await transport.send({ jsonrpc: "2.0", id: message.id, error: { code: RATE_LIMITED, message: e.message, data: e.data } });
+    }).catch(err => logger.error({ err: err?.message, tool }, "Failed to answer rate-limited call"));
+  };
+}
@@ -1,15 +1,67 @@
-import type { Provider } from "./provider.js";
+import type { Provider, ProviderHealth, SessionContext } from "./provider.js";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { logger } from "../logger.js";
 
 export class ProviderRegistry {
   private providers: Provider[] = [];
-  add(p: Provider) { this.providers.push(p); }
-  registerAll(server: McpServer) {
-    for (const p of this.providers) p.registerAll(server);
+  // subject -> enabled provider names; subjects not listed get every provider
+  private tenants: Record<string, string[]> = {};
+
+  add(p: Provider) {
+    if (this.get(p.name)) throw new Error(`Duplicate provider name '${p.name}'`);
+    this.providers.push(p);
+  }
+  get(name: string) { return this.providers.find(p => p.name === name); }
+  setTenantProviders(tenants: Record<string, string[]>) {
+    for (const [subject, names] of Object.entries(tenants)) {
+      const unknown = names.filter(n => !this.get(n));
+      if (unknown.length) throw new Error(`Tenant '${subject}' enables unknown providers: ${unknown.join(", ")}`);
+    }
+    this.tenants = tenants;
+  }
+  enabledFor(provider: string, subject?: string) {
+    const enabled = this.tenants[subject || "default"];
+    return !enabled || enabled.includes(provider);
+  }
+
+  // Registers the providers enabled for the caller's default subject; calls are re-checked per subject.
+  registerAll(server: McpServer, ctx: SessionContext = {}) {
+    const providerEnabled = (provider: string, subject?: string) => this.enabledFor(provider, subject);
+    for (const p of this.providers) {
+      if (!this.enabledFor(p.name, ctx.identity?.defaultSubject)) continue;
+      p.registerAll(server, { ...ctx, providerEnabled });
+    }
   }
   mountAllOAuth(app: any) {
     for (const p of this.providers) p.mountOAuth?.(app);
   }
+  mountAllRoutes(app: any) {
+    for (const p of this.providers) p.mountRoutes?.(app);
+  }
   list() { return this.providers; }
   listTools() { return this.providers.flatMap(p => p.listTools()); }
+
+  async initAll() {
+    for (const p of this.providers) await p.init?.();
+  }
+  async disposeAll() {
+    for (const p of [...this.providers].reverse()) {
+      try {
+        await p.dispose?.();
+      } catch (e: any) {
+        logger.error({ provider: p.name, err: e?.message }, "Provider dispose failed");
+      }
+    }
+  }
+  async health(): Promise<Record<string, ProviderHealth>> {
+    const out: Record<string, ProviderHealth> = {};
+    await Promise.all(this.providers.map(async p => {
+      try {
+        out[p.name] = p.health ? await p.health() : { ok: true };
+      } catch (e: any) {
+        out[p.name] = { ok: false, detail: e?.message || String(e) };
+      }
+    }));
+    return out;
+  }
 }
@@ -0,0 +1,121 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import type { EventStore, ProviderEvent } from "../storage/eventStore.js";
+import { logger } from "../logger.js";
+import { resolveSubject, type CallerIdentity } from "./auth.js";
+import type { ProviderRegistry } from "./registry.js";
+
+const BATCH = 100;
+// Seqs are assigned at insert but become visible at commit, so with several writers a lower seq
+// can appear after a higher one was read. Events are re-read for this long before the cursor
+// moves past them; one that commits later than that is missed.
+const SETTLE_MS = 30_000;
+
+interface Subscriber {
+  subject?: string; // the session's default subject, which its resources are read for
+  uris: Set<string>;
+}
+
+/**
+ * Turns the event log into MCP resource notifications. Every instance follows the log, so a
+ * webhook received by one instance reaches sessions connected to any of them. Each event is
+ * handed to its provider, which says which resource URIs changed; sessions of the event's
+ * subject get `notifications/resources/updated` for the URIs they subscribed to and
+ * `notifications/resources/list_changed` when the resource list changed.
+ */
+export class ResourceNotifier {
+  private events: EventStore;
+  private registry: ProviderRegistry;
+  private pollMs: number;
+  private sessions = new Map<McpServer, Subscriber>();
+  private cursor = 0; // every event up to here has been dispatched or given up on
+  private seen = new Map<number, number>(); // seqs after the cursor already dispatched -> when
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(events: EventStore, registry: ProviderRegistry, pollMs: number) {
+    this.events = events;
+    this.registry = registry;
+    this.pollMs = pollMs;
+  }
+
+  get enabled() { return this.pollMs > 0; }
+
+  // Call before the server connects: advertises subscriptions and tracks them for the session.
+  attach(server: McpServer, identity: CallerIdentity | undefined) {
+    const sub: Subscriber = { subject: resolveSubject(identity, undefined) ?? "default", uris: new Set() };
+    server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async (req) => {
+      sub.uris.add(req.params.uri);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (req) => {
+      sub.uris.delete(req.params.uri);
+      return {};
+    });
+    this.sessions.set(server, sub);
+    server.server.onclose = () => void this.sessions.delete(server);
+  }
+
+  // Starts after the current end of the log; earlier events were dispatched before this instance started.
+  async start() {
+    if (!this.enabled) return;
+    this.cursor = await this.events.latestSeq();
+    this.timer = setInterval(() => void this.poll(), this.pollMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      let after = this.cursor;
+      let batch: ProviderEvent[];
+      do {
+        batch = await this.events.since(after, BATCH);
+        for (const event of batch) {
+          after = event.seq!;
+          if (this.seen.has(after)) continue;
+          this.seen.set(after, Date.now());
+          await this.dispatch(event);
+        }
+      } while (batch.length === BATCH);
+      const settled = Date.now() - SETTLE_MS;
+      for (const [seq, at] of this.seen) {
+        if (at >= settled) continue;
+        this.cursor = Math.max(this.cursor, seq);
+        this.seen.delete(seq);
+      }
+    } catch (e: any) {
+      logger.error({ err: e?.message }, "Reading the event log failed");
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async dispatch(event: ProviderEvent) {
+    let changes;
+    try {
+      changes = this.registry.get(event.provider)?.handleEvent?.(event);
+    } catch (e: any) {
+      logger.error({ err: e?.message, provider: event.provider, event_id: event.id }, "Provider failed to handle event");
+      return;
+    }
+    if (!changes) return;
+    const sends: Promise<void>[] = [];
+    for (const [server, sub] of this.sessions) {
+      if (sub.subject !== event.subject) continue;
+      for (const uri of changes.uris) {
+        if (sub.uris.has(uri)) sends.push(server.server.sendResourceUpdated({ uri }));
+      }
+      if (changes.listChanged) sends.push(server.server.sendResourceListChanged());
+    }
+    // A session without an open stream can't take notifications; that's not an error here.
+    const failed = (await Promise.allSettled(sends)).filter(r => r.status === "rejected").length;
+    logger.debug({ provider: event.provider, type: event.type, notified: sends.length - failed, failed }, "Dispatched resource event");
+  }
+}
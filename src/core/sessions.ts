@@ -0,0 +1,308 @@
+import type express from "express";
+import { hostname } from "node:os";
+import { randomUUID } from "node:crypto";
+import { Readable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { SessionRecord, SessionStore, SessionTransport } from "../storage/sessionStore.js";
+import { logger } from "../logger.js";
+import { activeSessions } from "../metrics.js";
+import type { CallerIdentity } from "./auth.js";
+
+// Persisted last_seen_at is refreshed at most this often per session.
+const TOUCH_INTERVAL_MS = 30_000;
+
+export interface SessionOptions {
+  idleTtlMs: number;
+  maxSessions: number; // per instance; the least recently used session is evicted
+  maxPerCaller: number; // 0 = no per-caller cap
+  enableDnsRebindingProtection: boolean;
+  allowedHosts?: string[];
+}
+
+// Builds the MCP server for a caller and connects it to the transport.
+export type ConnectSession = (transport: Transport, identity: CallerIdentity | undefined) => Promise<void>;
+
+interface LiveSession {
+  id: string;
+  kind: SessionTransport;
+  transport: WebStandardStreamableHTTPServerTransport | SSEServerTransport;
+  keyId?: string;
+  lastSeen: number;
+  lastTouched: number;
+}
+
+function jsonRpcError(res: express.Response, status: number, message: string) {
+  res.status(status).json({ jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+// Runs an Express request through a web-standard (Request/Response) transport.
+async function handleWebRequest(transport: WebStandardStreamableHTTPServerTransport, req: express.Request, res: express.Response) {
+  const headers = new Headers();
+  for (const [k, v] of Object.entries(req.headers)) {
+    if (v !== undefined) headers.set(k, Array.isArray(v) ? v.join(", ") : v);
+  }
+  const abort = new AbortController();
+  res.on("close", () => abort.abort());
+  const webReq = new Request(`http://${req.headers.host ?? "localhost"}${req.originalUrl}`, { method: req.method, headers, signal: abort.signal });
+  const webRes = await transport.handleRequest(webReq, { authInfo: (req as any).auth, parsedBody: req.body });
+  res.status(webRes.status);
+  webRes.headers.forEach((v, k) => res.setHeader(k, v));
+  if (!webRes.body) return void res.end();
+  res.flushHeaders();
+  const body = Readable.fromWeb(webRes.body as WebReadableStream);
+  res.on("close", () => body.destroy());
+  body.pipe(res);
+}
+
+/**
+ * Tracks MCP sessions: idle expiry, per-instance and per-caller caps, and session metadata in
+ * the session store. A Streamable HTTP session that this instance doesn't hold (after a restart,
+ * or one opened on a sibling) is resumed from the store by replaying the client's initialize.
+ * SSE sessions live on one connection and can't be resumed.
+ */
+export class SessionManager {
+  readonly instance = `${hostname()}:${process.pid}`;
+  private live = new Map<string, LiveSession>();
+  private resuming = new Map<string, Promise<WebStandardStreamableHTTPServerTransport | undefined>>(); // sid -> pending resume
+  private store: SessionStore;
+  private opts: SessionOptions;
+  private connect: ConnectSession;
+  private sweeper?: NodeJS.Timeout;
+  private shuttingDown = false;
+
+  constructor(store: SessionStore, opts: SessionOptions, connect: ConnectSession) {
+    this.store = store;
+    this.opts = opts;
+    this.connect = connect;
+  }
+
+  start() {
+    this.sweeper = setInterval(() => void this.sweep(), Math.min(60_000, Math.max(1000, this.opts.idleTtlMs / 2)));
+    this.sweeper.unref();
+  }
+
+  // ---- Streamable HTTP ----
+  async handlePost(req: express.Request, res: express.Response) {
+    const identity = res.locals.identity as CallerIdentity | undefined;
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (sessionId) {
+      const transport = await this.streamable(sessionId, req, res);
+      if (transport) await handleWebRequest(transport, req, res);
+      return;
+    }
+    if (req.body?.method !== "initialize") return jsonRpcError(res, 400, "Bad Request: No valid session ID provided");
+
+    const transport = this.newTransport(randomUUID, async sid => {
+      await this.register(sid, "streamable_http", transport, identity, req.body.params);
+    });
+    await this.connect(transport, identity);
+    await handleWebRequest(transport, req, res);
+  }
+
+  // GET (notification stream) and DELETE (end session).
+  async handleSessionRequest(req: express.Request, res: express.Response) {
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    if (!sessionId) return void res.status(400).send("Missing session ID");
+    const transport = await this.streamable(sessionId, req, res);
+    if (transport) await handleWebRequest(transport, req, res);
+  }
+
+  // ---- Legacy SSE ----
+  async openSse(res: express.Response, endpoint: string) {
+    const identity = res.locals.identity as CallerIdentity | undefined;
+    const transport = new SSEServerTransport(endpoint, res);
+    const sid = transport.sessionId;
+    res.on("close", () => void this.closed(sid));
+    await this.register(sid, "sse", transport, identity, null);
+    await this.connect(transport, identity);
+  }
+
+  async postSseMessage(req: express.Request, res: express.Response) {
+    const sessionId = req.query.sessionId as string;
+    const s = this.live.get(sessionId);
+    if (!s || s.kind !== "sse") return void res.status(404).send("No transport found for sessionId");
+    if (!this.owns(s.keyId, res)) return void res.status(403).send("Session belongs to another caller");
+    if (!(await this.seen(s))) return void res.status(404).send("Session was closed");
+    await (s.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+  }
+
+  // ---- Admin ----
+  async list() {
+    const records = await this.store.list();
+    return records.map(r => ({ ...r, connected_here: this.live.has(r.id) }));
+  }
+
+  // Ends a session everywhere: its record goes, and the holding instance drops it on next use.
+  async kill(id: string) {
+    const existed = await this.store.delete(id);
+    const s = this.live.get(id);
+    if (s) await this.closeLocal(s, "killed");
+    return existed || !!s;
+  }
+
+  // Closes local connections. Streamable sessions stay in the store so another instance can resume them.
+  async shutdown() {
+    this.shuttingDown = true;
+    if (this.sweeper) clearInterval(this.sweeper);
+    for (const s of [...this.live.values()]) {
+      if (s.kind === "sse") await this.store.delete(s.id).catch(() => undefined);
+      await this.closeLocal(s, "shutdown");
+    }
+  }
+
+  // ---- internals ----
+  private newTransport(generate: () => string, onInit: (sid: string) => Promise<void>) {
+    return new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: generate,
+      onsessioninitialized: onInit,
+      enableDnsRebindingProtection: this.opts.enableDnsRebindingProtection,
+      allowedHosts: this.opts.allowedHosts?.length ? this.opts.allowedHosts : undefined
+    });
+  }
+
+  private owns(keyId: string | undefined | null, res: express.Response) {
+    return (keyId ?? undefined) === (res.locals.identity as CallerIdentity | undefined)?.keyId;
+  }
+
+  // Finds (or resumes) a Streamable HTTP session the caller owns; answers the request itself if none.
+  private async streamable(sid: string, req: express.Request, res: express.Response): Promise<WebStandardStreamableHTTPServerTransport | undefined> {
+    const s = this.live.get(sid);
+    if (s) {
+      if (s.kind !== "streamable_http") return void jsonRpcError(res, 400, "Bad Request: session uses the SSE transport");
+      if (!this.owns(s.keyId, res)) return void jsonRpcError(res, 403, "Forbidden: session belongs to another caller");
+      if (!(await this.seen(s))) return void jsonRpcError(res, 404, "Session not found");
+      return s.transport as WebStandardStreamableHTTPServerTransport;
+    }
+    // 404 tells the client to start a new session.
+    const rec = await this.store.get(sid);
+    if (!rec || rec.transport !== "streamable_http") return void jsonRpcError(res, 404, "Session not found");
+    if (!this.owns(rec.key_id, res)) return void jsonRpcError(res, 403, "Forbidden: session belongs to another caller");
+    if (Date.parse(rec.last_seen_at!) < Date.now() - this.opts.idleTtlMs) {
+      await this.store.delete(sid);
+      return void jsonRpcError(res, 404, "Session expired");
+    }
+    // Another request may have resumed it while the record was read.
+    if (this.live.has(sid)) return this.streamable(sid, req, res);
+    // Concurrent requests for a session being resumed share one resume.
+    let pending = this.resuming.get(sid);
+    if (!pending) {
+      pending = this.resume(rec, res.locals.identity as CallerIdentity | undefined, req.headers.host ?? "localhost")
+        .finally(() => this.resuming.delete(sid));
+      this.resuming.set(sid, pending);
+    }
+    const transport = await pending;
+    if (!transport) return void jsonRpcError(res, 404, "Session not found");
+    return transport;
+  }
+
+  private async resume(rec: SessionRecord, identity: CallerIdentity | undefined, host: string) {
+    const transport = this.newTransport(() => rec.id, async () => undefined);
+    await this.connect(transport, identity);
+    // Replays the client's initialize so the new transport and server are in the same state.
+    const init = new Request(`http://${host}/mcp`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "accept": "application/json, text/event-stream", "host": host },
+      body: JSON.stringify({ jsonrpc: "2.0", id: `resume-${rec.id}`, method: "initialize", params: rec.client ?? {} })
+    });
+    const primed = await transport.handleRequest(init);
+    await primed.text();
+    if (transport.sessionId !== rec.id) {
+      logger.warn({ session_id: rec.id, status: primed.status }, "Could not resume MCP session");
+      await transport.close();
+      return undefined;
+    }
+    this.track(rec.id, "streamable_http", transport, rec.key_id ?? undefined);
+    await this.store.touch(rec.id, this.instance);
+    logger.info({ session_id: rec.id, from_instance: rec.instance }, "MCP session resumed");
+    return transport;
+  }
+
+  private async register(sid: string, kind: SessionTransport, transport: LiveSession["transport"], identity: CallerIdentity | undefined, client: SessionRecord["client"]) {
+    await this.makeRoom(identity?.keyId);
+    this.track(sid, kind, transport, identity?.keyId);
+    await this.store.create({
+      id: sid,
+      transport: kind,
+      key_id: identity?.keyId ?? null,
+      caller: identity?.name ?? null,
+      subject: identity?.defaultSubject ?? null,
+      client: client ? { protocolVersion: client.protocolVersion, capabilities: client.capabilities, clientInfo: client.clientInfo } : null,
+      instance: this.instance
+    });
+    logger.info({ session_id: sid, transport: kind, key_id: identity?.keyId }, "MCP session opened");
+  }
+
+  private track(sid: string, kind: SessionTransport, transport: LiveSession["transport"], keyId?: string) {
+    const now = Date.now();
+    this.live.set(sid, { id: sid, kind, transport, keyId, lastSeen: now, lastTouched: now });
+    activeSessions.inc({ transport: kind });
+    // Streamable sessions are tracked after the server connected; keep its close handler too.
+    const serverClose = transport.onclose;
+    transport.onclose = () => {
+      serverClose?.();
+      void this.closed(sid);
+    };
+  }
+
+  // Marks activity; false when the session was killed or expired elsewhere.
+  private async seen(s: LiveSession) {
+    const now = Date.now();
+    s.lastSeen = now;
+    if (now - s.lastTouched < TOUCH_INTERVAL_MS) return true;
+    s.lastTouched = now;
+    if (await this.store.touch(s.id, this.instance)) return true;
+    await this.closeLocal(s, "removed");
+    return false;
+  }
+
+  private async makeRoom(keyId: string | undefined) {
+    const byAge = () => [...this.live.values()].sort((a, b) => a.lastSeen - b.lastSeen);
+    if (this.opts.maxPerCaller > 0) {
+      const mine = byAge().filter(s => s.keyId === keyId);
+      for (const s of mine.slice(0, Math.max(0, mine.length - this.opts.maxPerCaller + 1))) await this.evict(s, "caller limit");
+    }
+    const all = byAge();
+    for (const s of all.slice(0, Math.max(0, all.length - this.opts.maxSessions + 1))) await this.evict(s, "instance limit");
+  }
+
+  private async evict(s: LiveSession, reason: string) {
+    await this.store.delete(s.id);
+    await this.closeLocal(s, reason);
+  }
+
+  private async sweep() {
+    try {
+      const cutoff = Date.now() - this.opts.idleTtlMs;
+      for (const s of [...this.live.values()]) {
+        if (s.lastSeen < cutoff) await this.evict(s, "idle");
+      }
+      await this.store.deleteIdle(new Date(cutoff));
+    } catch (e: any) {
+      logger.error({ err: e?.message }, "Session sweep failed");
+    }
+  }
+
+  private async closeLocal(s: LiveSession, reason: string) {
+    if (!this.live.has(s.id)) return;
+    this.forget(s);
+    logger.info({ session_id: s.id, reason }, "MCP session closed");
+    await s.transport.close().catch(() => undefined);
+  }
+
+  // Transport closed on its own (client DELETE or a dropped SSE stream).
+  private async closed(sid: string) {
+    const s = this.live.get(sid);
+    if (!s) return;
+    this.forget(s);
+    logger.info({ session_id: sid }, "MCP session closed");
+    if (!this.shuttingDown) await this.store.delete(sid).catch(e => logger.error({ err: e?.message }, "Failed to delete session"));
+  }
+
+  private forget(s: LiveSession) {
+    this.live.delete(s.id);
+    activeSessions.dec({ transport: s.kind });
+  }
+}
@@ -1,151 +1,259 @@
 import express from 'express';
 import cors from 'cors';
 import compression from 'compression';
-import { randomUUID } from 'node:crypto';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { mcpAuthRouter, getOAuthProtectedResourceMetadataUrl } from '@modelcontextprotocol/sdk/server/auth/router.js';
 import { config } from './config.js';
 import { logger } from './logger.js';
+import { metricsRegistry } from './metrics.js';
 import { InMemoryTokenStore, PostgresTokenStore, TokenStore } from './storage/tokenStore.js';
+import { KeyRing, TokenCipher } from './storage/tokenCrypto.js';
 import { InMemoryUsageStore, PostgresUsageStore, UsageStore } from './storage/usageStore.js';
+import { ApiKeyStore, InMemoryApiKeyStore, PostgresApiKeyStore } from './storage/apiKeyStore.js';
+import { InMemoryOAuthServerStore, OAuthServerStore, PostgresOAuthServerStore } from './storage/oauthServerStore.js';
+import { InMemoryRateLimitStore, PostgresRateLimitStore, RateLimitStore } from './storage/rateLimitStore.js';
+import { InMemorySessionStore, PostgresSessionStore, SessionStore } from './storage/sessionStore.js';
+import { EventStore, InMemoryEventStore, PostgresEventStore } from './storage/eventStore.js';
+import { IdempotencyStore, InMemoryIdempotencyStore, PostgresIdempotencyStore } from './storage/idempotencyStore.js';
+import { AuditStore, InMemoryAuditStore, PostgresAuditStore } from './storage/auditStore.js';
+import { CallerIdentity, requireAdmin, requireCaller } from './core/auth.js';
+import { HubOAuthProvider, requireMcpAuth } from './core/mcpOAuth.js';
+import { loadPolicyFile, ToolPolicies } from './core/policy.js';
+import { enforceRateLimits, loadRateLimitFile, RateLimiter } from './core/rateLimit.js';
+import { SessionManager } from './core/sessions.js';
+import { Idempotency } from './core/idempotency.js';
+import { ResourceNotifier } from './core/resourceEvents.js';
+import { adminRouter } from './routes/admin.js';
+import { asyncHandler } from './utils/asyncHandler.js';
+import { statsRouter } from './routes/stats.js';
 import { ProviderRegistry } from './core/registry.js';
-import { NotionProvider } from './integrations/notion.js';
+import { loadProvidersFile } from './core/providerLoader.js';
+import { OAuth2Provider } from './core/oauth2Provider.js';
+import { builtinProviders, defaultProviders } from './integrations/builtins.js';
 
 const app = express();
 app.use(compression());
-app.use(express.json({ limit: '1mb' }));
+// Webhook receivers verify signatures over the exact bytes received.
+app.use(express.json({ limit: '1mb', verify: (req, _res, buf) => { (req as any).rawBody = buf; } }));
 app.use(cors({
   origin: config.corsOrigin,
-  exposedHeaders: ['Mcp-Session-Id'],
-  allowedHeaders: ['Content-Type', 'mcp-session-id', 'x-mcp-key']
+  exposedHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'mcp-protocol-version', 'x-mcp-key', 'x-admin-key']
 }));
 
-// Optional shared-secret auth for all MCP endpoints
-function requireSharedSecret(req: express.Request, res: express.Response, next: express.NextFunction) {
-  if (!config.sharedSecret) return next();
-  const provided = (req.headers['x-mcp-key'] as string) || '';
-  if (provided !== config.sharedSecret) {
-    return res.status(401).json({ error: 'Unauthorized' });
-  }
-  next();
-}
-
 // ---- Storage ----
+const tokenCipher = new TokenCipher(new KeyRing(config.tokenEncryptionKeys));
+if (!tokenCipher.enabled) logger.warn('TOKEN_ENCRYPTION_KEYS not set; OAuth tokens are stored unencrypted.');
+if (!config.oauthStateSecret) logger.warn('OAUTH_STATE_SECRET not set; consent links only complete on the instance that issued them.');
 let tokenStore: TokenStore;
 let usageStore: UsageStore;
+let apiKeyStore: ApiKeyStore;
+let oauthServerStore: OAuthServerStore;
+let rateLimitStore: RateLimitStore;
+let sessionStore: SessionStore;
+let eventStore: EventStore;
+let idempotencyStore: IdempotencyStore;
+let auditStore: AuditStore;
 if (config.databaseUrl) {
-  const pgToken = new PostgresTokenStore(config.databaseUrl);
+  const pgToken = new PostgresTokenStore(config.databaseUrl, tokenCipher);
   await pgToken.init?.();
   tokenStore = pgToken;
   const pgUsage = new PostgresUsageStore(config.databaseUrl);
   await pgUsage.init?.();
   usageStore = pgUsage;
+  const pgKeys = new PostgresApiKeyStore(config.databaseUrl);
+  await pgKeys.init?.();
+  apiKeyStore = pgKeys;
+  const pgOAuth = new PostgresOAuthServerStore(config.databaseUrl);
+  await pgOAuth.init?.();
+  oauthServerStore = pgOAuth;
+  const pgLimits = new PostgresRateLimitStore(config.databaseUrl);
+  await pgLimits.init?.();
+  rateLimitStore = pgLimits;
+  const pgSessions = new PostgresSessionStore(config.databaseUrl);
+  await pgSessions.init?.();
+  sessionStore = pgSessions;
+  const pgEvents = new PostgresEventStore(config.databaseUrl);
+  await pgEvents.init?.();
+  eventStore = pgEvents;
+  const pgIdempotency = new PostgresIdempotencyStore(config.databaseUrl);
+  await pgIdempotency.init?.();
+  idempotencyStore = pgIdempotency;
+  const pgAudit = new PostgresAuditStore(config.databaseUrl);
+  await pgAudit.init?.();
+  auditStore = pgAudit;
   logger.info('Using Postgres stores');
 } else {
-  tokenStore = new InMemoryTokenStore();
+  tokenStore = new InMemoryTokenStore(tokenCipher);
   usageStore = new InMemoryUsageStore();
+  apiKeyStore = new InMemoryApiKeyStore();
+  oauthServerStore = new InMemoryOAuthServerStore();
+  rateLimitStore = new InMemoryRateLimitStore();
+  sessionStore = new InMemorySessionStore();
+  eventStore = new InMemoryEventStore();
+  idempotencyStore = new InMemoryIdempotencyStore();
+  auditStore = new InMemoryAuditStore();
   logger.warn('Using in-memory stores (not persistent). Set DATABASE_URL to persist.');
 }
 
+// Raw usage rows past the retention window are folded into daily rollups.
+async function pruneUsage() {
+  try {
+    const { rolledUp } = await usageStore.prune!(config.usageRetentionDays);
+    if (rolledUp) logger.info({ rolledUp }, 'Rolled up old usage records');
+  } catch (e: any) {
+    logger.error({ err: e?.message }, 'Usage pruning failed');
+  }
+}
+if (config.usageRetentionDays > 0 && usageStore.prune) {
+  await pruneUsage();
+  setInterval(pruneUsage, 6 * 3600_000).unref();
+}
+async function pruneEvents() {
+  try {
+    const removed = await eventStore.prune(new Date(Date.now() - config.eventRetentionDays * 86400_000));
+    if (removed) logger.info({ removed }, 'Pruned old webhook events');
+  } catch (e: any) {
+    logger.error({ err: e?.message }, 'Event pruning failed');
+  }
+}
+if (config.eventRetentionDays > 0) {
+  await pruneEvents();
+  setInterval(pruneEvents, 6 * 3600_000).unref();
+}
+
 // ---- Providers ----
 const registry = new ProviderRegistry();
-const notion = new NotionProvider({
-  clientId: config.notion.clientId,
-  clientSecret: config.notion.clientSecret,
-  redirectUri: config.notion.redirectUri,
-  staticToken: config.notion.staticToken || undefined,
-  usePkce: config.notion.usePkce
-}, tokenStore, usageStore);
-registry.add(notion);
+// PROVIDERS_FILE lists the providers to load and which tenants get which; otherwise the env-configured defaults.
+const providerCtx = { tokenStore, usageStore, eventStore, publicUrl: config.publicUrl, providers: (name: string) => registry.get(name) };
+if (config.providersFile) {
+  const loaded = await loadProvidersFile(config.providersFile, providerCtx, builtinProviders);
+  for (const p of loaded.providers) registry.add(p);
+  registry.setTenantProviders(loaded.tenants);
+} else {
+  for (const p of defaultProviders(providerCtx)) registry.add(p);
+}
+await registry.initAll();
 
-// OAuth mounts
+// OAuth and webhook mounts
 registry.mountAllOAuth(app);
+registry.mountAllRoutes(app);
 
+// ---- Auth ----
+// Callers authenticate with an API key (or the legacy SHARED_SECRET) in `x-mcp-key`.
+const requireApiKey = requireCaller({
+  apiKeys: apiKeyStore,
+  sharedSecret: config.sharedSecret,
+  required: config.requireApiKey || !!config.sharedSecret
+});
+// With MCP_OAUTH_ENABLED, MCP clients can instead discover the hub's authorization server and
+// use bearer tokens. Consent is the Notion login, so one sign-in covers both.
+let requireMcpCaller: express.RequestHandler = requireApiKey;
+if (config.mcpOAuth) {
+  if (!config.publicUrl) throw new Error('MCP_OAUTH_ENABLED requires PUBLIC_URL (the OAuth issuer URL)');
+  const issuerUrl = new URL(config.publicUrl);
+  const notion = registry.get('notion');
+  if (!(notion instanceof OAuth2Provider)) throw new Error('MCP_OAUTH_ENABLED requires the notion provider (its login is the consent step)');
+  const mcpOAuth = new HubOAuthProvider(oauthServerStore, `${config.publicUrl}/auth/notion`);
+  app.use(mcpAuthRouter({ provider: mcpOAuth, issuerUrl, resourceName: 'MCP Tool Hub' }));
+  notion.onAuthorized = (requestId, subject, res) => mcpOAuth.completeAuthorization(requestId, subject, res);
+  requireMcpCaller = requireMcpAuth(mcpOAuth, getOAuthProtectedResourceMetadataUrl(issuerUrl), requireApiKey);
+}
 // ---- MCP server ----
-function buildServer() {
+const toolPolicies = new ToolPolicies(loadPolicyFile(config.toolPolicyFile), config.readOnly);
+const rateLimiter = new RateLimiter(loadRateLimitFile(config.rateLimitsFile), rateLimitStore);
+const knownTools = new Set(registry.listTools().map(t => t.name));
+// Webhook events become resources/updated and list_changed notifications for subscribed sessions.
+const notifier = new ResourceNotifier(eventStore, registry, config.eventPollSeconds * 1000);
+await notifier.start();
+const idempotency = new Idempotency(idempotencyStore, config.idempotencyTtlHours * 3600_000);
+function buildServer(identity?: CallerIdentity) {
   const server = new McpServer({ name: 'mcp-tool-hub-hardened', version: '0.3.0' });
-  registry.registerAll(server);
+  registry.registerAll(server, { identity, policies: toolPolicies, idempotency, audit: auditStore });
+  if (notifier.enabled) notifier.attach(server, identity);
   return server;
 }
 
-// ---- Streamable HTTP transport (preferred) ----
-const transports: Record<string, StreamableHTTPServerTransport> = {};
-app.post('/mcp', requireSharedSecret, async (req, res) => {
-  const sessionId = req.headers['mcp-session-id'] as string | undefined;
-  let transport: StreamableHTTPServerTransport | undefined;
-  if (sessionId && transports[sessionId]) {
-    transport = transports[sessionId];
-  } else {
-    const isInitialize = req.body?.method === 'initialize';
-    if (!isInitialize) {
-      res.status(400).json({ jsonrpc: '2.0', error: { code: -32000, message: 'Bad Request: No valid session ID provided' }, id: null });
-      return;
-    }
-    transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: () => randomUUID(),
-      onsessioninitialized: (sid) => {
-        transports[sid] = transport!;
-        res.setHeader('Mcp-Session-Id', sid);
-      },
-      enableDnsRebindingProtection: config.enableDnsRebindingProtection,
-      allowedHosts: config.allowedHosts.length ? config.allowedHosts : undefined,
-    });
-    const server = buildServer();
-    await server.connect(transport);
-  }
-  await transport.handleRequest(req, res, req.body);
+// ---- Sessions ----
+// A session may only be used by the caller that created it. Streamable HTTP sessions survive
+// restarts and move between instances through the session store.
+const sessions = new SessionManager(sessionStore, {
+  idleTtlMs: config.sessionIdleTtlMinutes * 60_000,
+  maxSessions: config.maxSessions,
+  maxPerCaller: config.maxSessionsPerCaller,
+  enableDnsRebindingProtection: config.enableDnsRebindingProtection,
+  allowedHosts: config.allowedHosts
+}, async (transport, identity) => {
+  await buildServer(identity).connect(transport);
+  if (rateLimiter.enabled) enforceRateLimits(transport, rateLimiter, identity, knownTools, usageStore);
 });
-async function handleSessionRequest(req: express.Request, res: express.Response) {
-  const sessionId = req.headers['mcp-session-id'] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
-    res.status(400).send('Invalid or missing session ID');
-    return;
-  }
-  const transport = transports[sessionId];
-  await transport.handleRequest(req, res);
-}
-app.get('/mcp', requireSharedSecret, handleSessionRequest);
-app.delete('/mcp', requireSharedSecret, handleSessionRequest);
+sessions.start();
+
+app.use('/admin', adminRouter({ adminSecret: config.adminSecret, apiKeys: apiKeyStore, sessions, registry, tokens: tokenStore, audit: auditStore }));
+
+// ---- Streamable HTTP transport (preferred) ----
+app.post('/mcp', requireMcpCaller, asyncHandler((req, res) => sessions.handlePost(req, res)));
+app.get('/mcp', requireMcpCaller, asyncHandler((req, res) => sessions.handleSessionRequest(req, res)));
+app.delete('/mcp', requireMcpCaller, asyncHandler((req, res) => sessions.handleSessionRequest(req, res)));
 
 // ---- Legacy SSE transport ----
-const sseTransports: Record<string, SSEServerTransport> = {};
-app.get('/sse', requireSharedSecret, async (_req, res) => {
-  const transport = new SSEServerTransport('/messages', res);
-  sseTransports[transport.sessionId] = transport;
-  res.on('close', () => { delete sseTransports[transport.sessionId]; });
-  const server = buildServer();
-  await server.connect(transport);
-});
-app.post('/messages', requireSharedSecret, async (req, res) => {
-  const sessionId = req.query.sessionId as string;
-  const transport = sseTransports[sessionId];
-  if (transport) {
-    await transport.handlePostMessage(req, res, req.body);
-  } else {
-    res.status(400).send('No transport found for sessionId');
-  }
-});
+app.get('/sse', requireMcpCaller, asyncHandler((_req, res) => sessions.openSse(res, '/messages')));
+app.post('/messages', requireMcpCaller, asyncHandler((req, res) => sessions.postSseMessage(req, res)));
 
 // ---- Utility routes ----
 app.get('/providers', (_req, res) => {
   res.json({
-    providers: registry.list().map(p => p.constructor.name),
+    providers: registry.list().map(p => p.name),
     tools: registry.listTools().map(t => t.name)
   });
 });
-app.get('/stats', async (_req, res) => {
-  res.json(await usageStore.stats());
-});
-app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', time: new Date().toISOString() });
+// Per-subject usage and raw error messages: admin only, like /admin. It used to be open, so
+// without ADMIN_SECRET it answers 403 rather than pretending not to exist.
+app.use('/stats', requireAdmin(config.adminSecret, 403), statsRouter(usageStore));
+app.get('/metrics', asyncHandler(async (_req, res) => {
+  res.type(metricsRegistry.contentType).send(await metricsRegistry.metrics());
+}));
+app.get('/health', asyncHandler(async (_req, res) => {
+  const providers = await registry.health();
+  const ok = Object.values(providers).every(h => h.ok);
+  res.json({ status: ok ? 'ok' : 'degraded', time: new Date().toISOString(), providers });
+}));
+
+// Failed store or provider calls end up here instead of as unhandled rejections.
+app.use((err: any, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  logger.error({ err: err?.message, method: req.method, path: req.path }, 'Request failed');
+  if (res.headersSent) return void res.end();
+  // Client errors raised by middleware (e.g. malformed JSON) keep their status and message.
+  const status = err?.status ?? 500;
+  const message = err?.status ? err.message : 'Internal server error';
+  if (req.path === '/mcp' || req.path === '/messages') {
+    return void res.status(status).json({ jsonrpc: '2.0', error: { code: status < 500 ? -32600 : -32603, message }, id: req.body?.id ?? null });
+  }
+  res.status(status).json({ error: message });
 });
 
 // ---- Start ----
-app.listen(config.port, () => {
+const httpServer = app.listen(config.port, () => {
   console.log(`MCP Tool Hub Hardened listening on :${config.port}`);
   console.log(` - Streamable HTTP: POST/GET/DELETE /mcp`);
   console.log(` - Legacy SSE: GET /sse  + POST /messages`);
-  console.log(` - Notion OAuth start: GET /auth/notion`);
-  if (config.sharedSecret) console.log(' - Shared-secret auth enforced for MCP endpoints');
+  for (const p of registry.list()) {
+    if (p instanceof OAuth2Provider) console.log(` - ${p.name} OAuth start: GET /auth/${p.name}`);
+  }
+  if (config.requireApiKey || config.sharedSecret) console.log(' - API key (x-mcp-key) required for MCP endpoints');
+  if (config.mcpOAuth) console.log(' - MCP OAuth: /.well-known/oauth-protected-resource, /authorize, /token, /register');
+  if (config.readOnly) console.log(' - Read-only mode: write tools are hidden');
+  if (rateLimiter.enabled) console.log(' - Rate limits and quotas enabled');
+  if (config.adminSecret) console.log(' - Admin API: /admin/keys, /admin/sessions, /admin/tenants, /admin/audit, /stats (x-admin-key)');
 });
+
+for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+  process.once(signal, async () => {
+    logger.info({ signal }, 'Shutting down');
+    httpServer.close();
+    notifier.stop();
+    await sessions.shutdown();
+    await registry.disposeAll();
+    process.exit(0);
+  });
+}
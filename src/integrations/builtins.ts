@@ -0,0 +1,79 @@
+// Providers that PROVIDERS_FILE can name directly, plus the default set used without one.
+import { resolve } from "node:path";
+import { z } from "zod";
+import { config } from "../config.js";
+import type { Provider } from "../core/provider.js";
+import type { ProviderContext, ProviderFactory } from "../core/providerLoader.js";
+import { NotionProvider } from "./notion.js";
+import { GitHubProvider } from "./github.js";
+import { loadOpenApiProviders, OpenApiProvider, openApiProviderSchema } from "./openapi.js";
+
+// Settings override the matching environment variables.
+const notionSettings = z.object({
+  clientId: z.string(),
+  clientSecret: z.string(),
+  redirectUri: z.string(),
+  staticToken: z.string(),
+  usePkce: z.boolean(),
+  requestsPerSecond: z.number().min(0),
+  queueMaxWaitMs: z.number().int().min(0),
+  cacheMaxEntries: z.number().int().min(0),
+  cacheTtls: z.record(z.number().min(0)),
+  webhookVerificationToken: z.string()
+}).partial().strict();
+
+const githubSettings = z.object({
+  clientId: z.string(),
+  clientSecret: z.string(),
+  redirectUri: z.string(),
+  staticToken: z.string(),
+  scopes: z.array(z.string())
+}).partial().strict();
+
+function parseSettings<T extends z.ZodTypeAny>(module: string, schema: T, settings: unknown): z.infer<T> {
+  const parsed = schema.safeParse(settings);
+  if (!parsed.success) throw new Error(`Invalid settings for provider '${module}': ${parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  return parsed.data;
+}
+
+// Hub-wide settings for OAuth consent links.
+function oauthState() {
+  return { stateSecret: config.oauthStateSecret || undefined, stateTtlMs: config.oauthStateTtlMinutes * 60_000 };
+}
+
+export const builtinProviders: Record<string, ProviderFactory> = {
+  notion: (settings, ctx) => {
+    const s = parseSettings("notion", notionSettings, settings);
+    return new NotionProvider({
+      ...config.notion,
+      ...s,
+      staticToken: (s.staticToken ?? config.notion.staticToken) || undefined,
+      webhookVerificationToken: (s.webhookVerificationToken ?? config.notion.webhookVerificationToken) || undefined,
+      publicUrl: ctx.publicUrl,
+      ...oauthState()
+    }, ctx.tokenStore, ctx.usageStore, ctx.eventStore);
+  },
+  github: (settings, ctx) => {
+    const s = parseSettings("github", githubSettings, settings);
+    return new GitHubProvider({
+      ...config.github,
+      ...s,
+      staticToken: (s.staticToken ?? config.github.staticToken) || undefined,
+      publicUrl: ctx.publicUrl,
+      ...oauthState()
+    }, ctx.tokenStore, ctx.usageStore);
+  },
+  openapi: (settings, ctx) => {
+    const cfg = parseSettings("openapi", openApiProviderSchema, settings);
+    return new OpenApiProvider(cfg, resolve(ctx.baseDir, cfg.spec), ctx.tokenStore, ctx.usageStore, ctx.providers);
+  }
+};
+
+// Without PROVIDERS_FILE: Notion, GitHub when configured, and OPENAPI_PROVIDERS_FILE entries.
+export function defaultProviders(ctx: Omit<ProviderContext, "baseDir">): Provider[] {
+  const base = { ...ctx, baseDir: process.cwd() };
+  const providers = [builtinProviders.notion({}, base) as Provider];
+  if (config.github.clientId || config.github.staticToken) providers.push(builtinProviders.github({}, base) as Provider);
+  providers.push(...loadOpenApiProviders(config.openApiProvidersFile, ctx.tokenStore, ctx.usageStore, ctx.providers));
+  return providers;
+}
@@ -0,0 +1,218 @@
+import type { TokenStore } from "../storage/tokenStore.js";
+import type { UsageStore } from "../storage/usageStore.js";
+import { outputFormat } from "../core/provider.js";
+import { OAuth2Provider, type TokenCheck } from "../core/oauth2Provider.js";
+import { z } from "zod";
+import { GitHubClient, githubError, githubFetch } from "./githubClient.js";
+import { compactUser, formatGitHub, formatGitHubList, githubListOutput, githubObjectOutput } from "./githubFormat.js";
+
+export interface GitHubConfig {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scopes: string[];
+  staticToken?: string;
+  publicUrl?: string;
+  stateSecret?: string;
+  stateTtlMs?: number;
+}
+
+const repoFields = {
+  owner: z.string().describe("Repository owner (user or organization)"),
+  repo: z.string().describe("Repository name")
+};
+
+const pageFields = {
+  per_page: z.number().int().min(1).max(100).default(30),
+  page: z.number().int().min(1).default(1)
+};
+
+function repoPath(args: { owner: string, repo: string }) {
+  return `repos/${encodeURIComponent(args.owner)}/${encodeURIComponent(args.repo)}`;
+}
+
+export class GitHubProvider extends OAuth2Provider {
+  private client: GitHubClient;
+
+  constructor(cfg: GitHubConfig, store: TokenStore, usage?: UsageStore) {
+    super("github", {
+      ...cfg,
+      label: "GitHub",
+      authorizeUrl: "https://github.com/login/oauth/authorize",
+      tokenUrl: "https://github.com/login/oauth/access_token",
+      clientAuth: "body",
+      revoke: { url: `https://api.github.com/applications/${cfg.clientId}/token`, method: "DELETE", tokenField: "access_token" },
+      // Token responses don't say who authorized; the user's stable numeric id is the subject.
+      identify: async (json) => {
+        const res = await githubFetch(json.access_token, "user");
+        if (!res.ok) throw githubError("GitHub user lookup", res);
+        return { subject: String(res.json.id), workspace_id: String(res.json.id), workspace_name: res.json.login };
+      }
+    }, store, usage);
+    this.client = new GitHubClient(this.oauth);
+
+    const subject = z.string().optional();
+
+    this.registerTool({
+      name: "getSelf",
+      title: "GitHub: Get Authenticated User",
+      description: "Returns the GitHub user the current token belongs to.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({ subject, format: outputFormat }),
+      outputSchema: githubObjectOutput,
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, "user");
+        if (!res.ok) throw githubError("getSelf", res);
+        return formatGitHub(args.format, "user", res.json);
+      }
+    });
+
+    this.registerTool({
+      name: "listRepos",
+      title: "GitHub: List Repositories",
+      description: "List repositories the user can access, most recently updated first.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({
+        subject,
+        affiliation: z.string().default("owner,collaborator,organization_member"),
+        sort: z.enum(["created", "updated", "pushed", "full_name"]).default("updated"),
+        ...pageFields,
+        format: outputFormat
+      }),
+      outputSchema: githubListOutput,
+      handler: async (args) => {
+        const qs = new URLSearchParams({ affiliation: args.affiliation, sort: args.sort, per_page: String(args.per_page), page: String(args.page) });
+        const res = await this.client.request(args.subject, `user/repos?${qs}`);
+        if (!res.ok) throw githubError("listRepos", res);
+        return formatGitHubList(args.format, "repo", res.json, args.page, args.per_page);
+      }
+    });
+
+    this.registerTool({
+      name: "listIssues",
+      title: "GitHub: List Issues",
+      description: "List issues (and pull requests) in a repository.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({
+        subject,
+        ...repoFields,
+        state: z.enum(["open", "closed", "all"]).default("open"),
+        labels: z.array(z.string()).optional(),
+        assignee: z.string().optional(),
+        ...pageFields,
+        format: outputFormat
+      }),
+      outputSchema: githubListOutput,
+      handler: async (args) => {
+        const qs = new URLSearchParams({ state: args.state, per_page: String(args.per_page), page: String(args.page) });
+        if (args.labels?.length) qs.set("labels", args.labels.join(","));
+        if (args.assignee) qs.set("assignee", args.assignee);
+        const res = await this.client.request(args.subject, `${repoPath(args)}/issues?${qs}`);
+        if (!res.ok) throw githubError("listIssues", res);
+        return formatGitHubList(args.format, "issue", res.json, args.page, args.per_page);
+      }
+    });
+
+    this.registerTool({
+      name: "searchIssues",
+      title: "GitHub: Search Issues",
+      description: "Search issues and pull requests with GitHub search syntax, e.g. `repo:owner/name is:open label:bug`.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({ subject, query: z.string().min(1), ...pageFields, format: outputFormat }),
+      outputSchema: githubListOutput,
+      handler: async (args) => {
+        const qs = new URLSearchParams({ q: args.query, per_page: String(args.per_page), page: String(args.page) });
+        const res = await this.client.request(args.subject, `search/issues?${qs}`);
+        if (!res.ok) throw githubError("searchIssues", res);
+        return formatGitHubList(args.format, "issue", res.json.items || [], args.page, args.per_page, res.json.total_count);
+      }
+    });
+
+    this.registerTool({
+      name: "getIssue",
+      title: "GitHub: Get Issue",
+      description: "Fetch one issue or pull request by number.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({ subject, ...repoFields, issue_number: z.number().int().min(1), format: outputFormat }),
+      outputSchema: githubObjectOutput,
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, `${repoPath(args)}/issues/${args.issue_number}`);
+        if (!res.ok) throw githubError("getIssue", res);
+        return formatGitHub(args.format, "issue", res.json);
+      }
+    });
+
+    this.registerTool({
+      name: "createIssue",
+      title: "GitHub: Create Issue",
+      description: "Open a new issue in a repository.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      inputSchema: z.object({
+        subject,
+        ...repoFields,
+        title: z.string().min(1),
+        body: z.string().optional(),
+        labels: z.array(z.string()).optional(),
+        assignees: z.array(z.string()).optional(),
+        format: outputFormat
+      }),
+      outputSchema: githubObjectOutput,
+      handler: async (args) => {
+        const { title, body, labels, assignees } = args;
+        const res = await this.client.request(args.subject, `${repoPath(args)}/issues`, "POST", { title, body, labels, assignees });
+        if (!res.ok) throw githubError("createIssue", res);
+        return formatGitHub(args.format, "issue", res.json);
+      }
+    });
+
+    this.registerTool({
+      name: "updateIssue",
+      title: "GitHub: Update Issue",
+      description: "Edit an issue's title, body, labels or assignees, or close/reopen it. Only the fields given are changed.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      inputSchema: z.object({
+        subject,
+        ...repoFields,
+        issue_number: z.number().int().min(1),
+        title: z.string().min(1).optional(),
+        body: z.string().optional(),
+        state: z.enum(["open", "closed"]).optional(),
+        state_reason: z.enum(["completed", "not_planned", "reopened"]).optional(),
+        labels: z.array(z.string()).optional(),
+        assignees: z.array(z.string()).optional(),
+        format: outputFormat
+      }),
+      outputSchema: githubObjectOutput,
+      handler: async (args) => {
+        const { title, body, state, state_reason, labels, assignees } = args;
+        const res = await this.client.request(args.subject, `${repoPath(args)}/issues/${args.issue_number}`, "PATCH", { title, body, state, state_reason, labels, assignees });
+        if (!res.ok) throw githubError("updateIssue", res);
+        return formatGitHub(args.format, "issue", res.json);
+      }
+    });
+
+    this.registerTool({
+      name: "addIssueComment",
+      title: "GitHub: Comment on Issue",
+      description: "Add a comment to an issue or pull request.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      inputSchema: z.object({ subject, ...repoFields, issue_number: z.number().int().min(1), body: z.string().min(1), format: outputFormat }),
+      outputSchema: githubObjectOutput,
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, `${repoPath(args)}/issues/${args.issue_number}/comments`, "POST", { body: args.body });
+        if (!res.ok) throw githubError("addIssueComment", res);
+        return formatGitHub(args.format, "comment", res.json);
+      }
+    });
+  }
+
+  async checkToken(subject: string): Promise<TokenCheck> {
+    try {
+      const res = await this.client.request(subject, "user");
+      if (!res.ok) return { ok: false, status: res.status, detail: githubError("user", res).message };
+      return { ok: true, status: res.status, identity: compactUser(res.json) };
+    } catch (e: any) {
+      return { ok: false, detail: e?.message || String(e) };
+    }
+  }
+}
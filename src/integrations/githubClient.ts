@@ -0,0 +1,38 @@
+import type { HttpResponse, OAuth2Client } from "../core/oauth2Provider.js";
+import { httpWithRetry } from "../utils/http.js";
+
+export const GITHUB_API = "https://api.github.com";
+
+export type GitHubResponse = HttpResponse;
+
+// Turns a failed API response into a readable error using GitHub's message and validation errors.
+export function githubError(action: string, res: GitHubResponse) {
+  const j = res.json || {};
+  const details = Array.isArray(j.errors) ? j.errors.map((e: any) => e.message || [e.resource, e.field, e.code].filter(Boolean).join(" ")) : [];
+  const detail = [j.message || j.error || JSON.stringify(j), ...details].join("; ");
+  return new Error(`${action} failed (HTTP ${res.status}): ${detail}`);
+}
+
+export async function githubFetch(token: string, endpoint: string, method: string = "GET", data?: any) {
+  const headers: Record<string,string> = {
+    "Authorization": `Bearer ${token}`,
+    "Accept": "application/vnd.github+json",
+    "X-GitHub-Api-Version": "2022-11-28",
+    "User-Agent": "mcp-tool-hub",
+    "Content-Type": "application/json"
+  };
+  return httpWithRetry(method, `${GITHUB_API}/${endpoint}`, headers, data, { retries: 3 });
+}
+
+// Authenticated access to the GitHub REST API for a subject; token handling lives in OAuth2Client.
+export class GitHubClient {
+  private oauth: OAuth2Client;
+
+  constructor(oauth: OAuth2Client) {
+    this.oauth = oauth;
+  }
+
+  async request(subject: string | undefined, endpoint: string, method: string = "GET", data?: any): Promise<GitHubResponse> {
+    return this.oauth.request(subject, token => githubFetch(token, endpoint, method, data));
+  }
+}
@@ -0,0 +1,103 @@
+// Compact and Markdown views of GitHub API objects, plus the output schemas tools declare.
+import { z } from "zod";
+import { structuredResult, OutputFormat } from "../core/provider.js";
+
+export type GitHubKind = "user" | "repo" | "issue" | "comment";
+
+// Output schemas are loose envelopes so that both raw and compact shapes validate.
+export const githubObjectOutput = z.object({}).passthrough();
+export const githubListOutput = z.object({
+  results: z.array(z.object({}).passthrough()),
+  page: z.number(),
+  next_page: z.number().nullable()
+}).passthrough();
+
+export function compactUser(u: any) {
+  return { login: u.login, id: u.id, name: u.name ?? null, url: u.html_url, type: u.type };
+}
+
+export function compactRepo(r: any) {
+  return {
+    full_name: r.full_name,
+    private: r.private,
+    description: r.description ?? null,
+    url: r.html_url,
+    default_branch: r.default_branch,
+    open_issues: r.open_issues_count,
+    updated_at: r.updated_at
+  };
+}
+
+export function compactIssue(i: any) {
+  const out: Record<string, unknown> = {
+    number: i.number,
+    title: i.title,
+    state: i.state,
+    url: i.html_url,
+    author: i.user?.login ?? null,
+    labels: (i.labels || []).map((l: any) => typeof l === "string" ? l : l.name),
+    assignees: (i.assignees || []).map((a: any) => a.login),
+    comments: i.comments,
+    created_at: i.created_at,
+    updated_at: i.updated_at
+  };
+  if (i.pull_request) out.pull_request = true;
+  if (i.repository_url) out.repo = String(i.repository_url).split("/repos/")[1];
+  if (i.body) out.body = i.body;
+  return out;
+}
+
+export function compactComment(c: any) {
+  return { id: c.id, author: c.user?.login ?? null, url: c.html_url, body: c.body, created_at: c.created_at };
+}
+
+const compactors: Record<GitHubKind, (o: any) => Record<string, unknown>> = {
+  user: compactUser,
+  repo: compactRepo,
+  issue: compactIssue,
+  comment: compactComment
+};
+
+function lineFor(kind: GitHubKind, o: any) {
+  switch (kind) {
+    case "repo": return `- [${o.full_name}](${o.html_url})${o.description ? ` — ${o.description}` : ""}`;
+    case "issue": {
+      const labels = (o.labels || []).map((l: any) => typeof l === "string" ? l : l.name);
+      return `- [#${o.number} ${o.title}](${o.html_url}) — ${o.state}${labels.length ? `; ${labels.join(", ")}` : ""}`;
+    }
+    case "comment": return `- **${o.user?.login}** (${o.created_at}): ${String(o.body ?? "").split("\n")[0]}`;
+    case "user": return `- [${o.login}](${o.html_url})`;
+  }
+}
+
+function objectToMarkdown(kind: GitHubKind, o: any) {
+  switch (kind) {
+    case "issue":
+      return [`# #${o.number} ${o.title}`, "", `${o.state} · opened by ${o.user?.login} · ${o.html_url}`, "", o.body || "_No description._"].join("\n");
+    case "repo":
+      return [`# ${o.full_name}`, "", o.html_url, ...(o.description ? ["", o.description] : [])].join("\n");
+    case "user":
+      return `**${o.name ?? o.login}** (${o.login}) — ${o.html_url}`;
+    case "comment":
+      return `**${o.user?.login}** commented: ${o.html_url}\n\n${o.body ?? ""}`;
+  }
+}
+
+// Renders a single GitHub API object in the caller's chosen format.
+export function formatGitHub(format: OutputFormat, kind: GitHubKind, raw: any) {
+  if (format === "raw") return structuredResult(raw, JSON.stringify(raw, null, 2));
+  return structuredResult(compactors[kind](raw), format === "markdown" ? objectToMarkdown(kind, raw) : undefined);
+}
+
+// Renders one page of results; GitHub paginates by page number.
+export function formatGitHubList(format: OutputFormat, kind: GitHubKind, items: any[], page: number, perPage: number, total?: number) {
+  const next_page = items.length === perPage && (total === undefined || page * perPage < total) ? page + 1 : null;
+  const envelope = (results: any[]) => ({ results, page, next_page, ...(total !== undefined ? { total_count: total } : {}) });
+  if (format === "raw") return structuredResult(envelope(items), JSON.stringify(envelope(items), null, 2));
+  const compact = envelope(items.map(compactors[kind]));
+  if (format !== "markdown") return structuredResult(compact);
+  const lines = items.map(o => lineFor(kind, o));
+  if (!lines.length) lines.push("_No results._");
+  if (next_page) lines.push(`\n_More results available (page: ${next_page})._`);
+  return structuredResult(compact, lines.join("\n"));
+}
@@ -1,12 +1,48 @@
-import type { TokenStore, TokenRecord } from "../storage/tokenStore.js";
+import type express from "express";
+import type { EventStore, ProviderEvent } from "../storage/eventStore.js";
+import type { TokenStore } from "../storage/tokenStore.js";
 import type { UsageStore } from "../storage/usageStore.js";
-import { Provider } from "../core/provider.js";
+import { outputFormat, reportProgress, ResourceChanges, structuredResult, ToolExtra } from "../core/provider.js";
+import { OAuth2Provider, type TokenCheck } from "../core/oauth2Provider.js";
+import { logger } from "../logger.js";
+import { RequestScheduler } from "../utils/scheduler.js";
+import { TtlCache } from "../utils/ttlCache.js";
 import { z } from "zod";
-import express from "express";
-import { httpWithRetry } from "../utils/http.js";
+import { CacheOptions, NOTION_API, NotionClient, notionError, NotionResponse, normalizeId } from "./notionClient.js";
+import { coerceProperties, compactSchema, DatabaseSchema, needsSchema, pageSchema, propertyInputs } from "./notionProperties.js";
+import { compactDatabase, compactPage, compactUser, formatNotion, listOutput, objectOutput } from "./notionFormat.js";
+import { flattenRow, keyValue, mapRow, parseCsv, Row, toCsv, toJsonl } from "./notionBulk.js";
+import { notionEvent, notionEventIds, notionResourceChanges, verifyNotionSignature } from "./notionWebhooks.js";
+import { blocksToMarkdown, markdownToBlocks, markdownToRichText, NotionBlock, notionLanguage, notionUrl, pageTitle } from "./notionMarkdown.js";
 
-const NOTION_API = "https://api.notion.com/v1";
-const NOTION_VERSION = "2022-06-28";
+const MAX_CHILDREN_PER_REQUEST = 100;
+// Recently edited pages/databases offered in resources/list, and rows in a database resource.
+const RESOURCE_LIST_SIZE = 25;
+const RESOURCE_DATABASE_ROWS = 100;
+// Upper bound on items a single fetch_all call will collect, whatever max_items says.
+const MAX_FETCH_ALL_ITEMS = 5000;
+// Bounds on one importRows call and on the rows exportDatabase (and an upsert's key lookup) reads.
+const MAX_IMPORT_ROWS = 1000;
+const MAX_BULK_ROWS = 20_000;
+
+// Seconds a read tool's Notion responses stay cached; writes invalidate them sooner.
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  search: 30,
+  fetchPage: 60,
+  readPage: 60,
+  queryDatabase: 30,
+  describeDatabase: 300
+};
+
+const cacheField = {
+  cache: z.enum(["default", "bypass"]).default("default").describe("bypass: ignore cached results and fetch fresh data from Notion")
+};
+
+const paginationFields = {
+  fetch_all: z.boolean().default(false).describe("Follow next_cursor internally and return one merged result"),
+  max_items: z.number().int().min(1).max(MAX_FETCH_ALL_ITEMS).optional()
+    .describe(`Stop after this many items (implies fetch_all; hard ceiling ${MAX_FETCH_ALL_ITEMS})`)
+};
 
 export interface NotionConfig {
   clientId: string;
@@ -14,30 +50,85 @@ export interface NotionConfig {
   redirectUri: string;
   staticToken?: string;
   usePkce?: boolean;
+  publicUrl?: string; // used to build re-authorize links in tool errors
+  requestsPerSecond?: number; // per workspace; 0 disables pacing
+  queueMaxWaitMs?: number; // fail instead of queueing longer than this
+  cacheMaxEntries?: number; // read cache size; 0 disables caching
+  cacheTtls?: Record<string, number>; // tool -> seconds, overriding DEFAULT_CACHE_TTLS
+  webhookVerificationToken?: string; // from the webhook subscription's verification request
+  stateSecret?: string;
+  stateTtlMs?: number;
 }
 
-function basicAuthHeader(id: string, secret: string) {
-  return `Basic ${Buffer.from(`${id}:${secret}`).toString("base64")}`;
+const icon = z.union([
+  z.object({ type: z.literal("emoji"), emoji: z.string() }),
+  z.object({ type: z.literal("external"), external: z.object({ url: z.string().url() }) })
+]);
+const cover = z.object({ type: z.literal("external"), external: z.object({ url: z.string().url() }) });
+
+// Block types whose content can't be re-created through the API, so they can't be moved.
+const UNMOVABLE_BLOCKS = new Set(["child_page", "child_database", "link_preview", "unsupported"]);
+
+// Strips a fetched block (and its fetched children) down to what the create endpoints accept.
+function toCreatable(b: NotionBlock): NotionBlock {
+  if (UNMOVABLE_BLOCKS.has(b.type)) throw new Error(`Blocks of type '${b.type}' cannot be moved`);
+  const data = { ...b[b.type] };
+  if (data.type === "file") throw new Error(`Notion-hosted ${b.type} blocks cannot be moved`);
+  if (b.children?.length) data.children = b.children.map(toCreatable);
+  return { object: "block", type: b.type, [b.type]: data } as any;
 }
 
-async function notionFetch(token: string, endpoint: string, method: string = "GET", data?: any) {
-  const headers: Record<string,string> = {
-    "Authorization": `Bearer ${token}`,
-    "Notion-Version": NOTION_VERSION,
-    "Content-Type": "application/json"
-  };
-  return httpWithRetry(method, `${NOTION_API}/${endpoint}`, headers, data, { retries: 3 });
+export interface BlockTreeLimits {
+  maxDepth: number;
+  maxBlocks: number;
 }
 
-export class NotionProvider extends Provider {
-  private cfg: NotionConfig;
-  private store: TokenStore;
-  private pkceByState = new Map<string, string>(); // state -> code_verifier
+// Notion accepts at most two levels of nesting and 100 children per array in one
+// request. Children that don't fit are held back and appended once their parent exists.
+function splitForRequest(blocks: NotionBlock[]) {
+  const deferred = new Map<number, NotionBlock[]>();
+  const send = blocks.map((b, i) => {
+    const data = b[b.type];
+    const kids: NotionBlock[] | undefined = data?.children;
+    if (!kids?.length) return b;
+    const fits = b.type === "table" || (kids.length <= MAX_CHILDREN_PER_REQUEST && kids.every(k => !k[k.type]?.children?.length));
+    const inline = fits ? kids.slice(0, MAX_CHILDREN_PER_REQUEST) : [];
+    const rest = fits ? kids.slice(MAX_CHILDREN_PER_REQUEST) : kids;
+    if (rest.length) deferred.set(i, rest);
+    const copy: any = { ...b, [b.type]: { ...data } };
+    if (inline.length) copy[b.type].children = inline;
+    else delete copy[b.type].children;
+    return copy as NotionBlock;
+  });
+  return { send, deferred };
+}
 
-  constructor(cfg: NotionConfig, store: TokenStore, usage?: UsageStore) {
-    super("notion", usage);
-    this.cfg = cfg;
-    this.store = store;
+export class NotionProvider extends OAuth2Provider {
+  private client: NotionClient;
+  private cacheTtls: Record<string, number>;
+  private events?: EventStore;
+  private webhookToken?: string;
+  private verificationLogged = false;
+
+  constructor(cfg: NotionConfig, store: TokenStore, usage?: UsageStore, events?: EventStore) {
+    super("notion", {
+      ...cfg,
+      label: "Notion",
+      authorizeUrl: `${NOTION_API}/oauth/authorize`,
+      tokenUrl: `${NOTION_API}/oauth/token`,
+      authorizeParams: { owner: "user" },
+      revoke: { url: `${NOTION_API}/oauth/revoke` },
+      // Notion tokens are per workspace, so the workspace is the subject.
+      identify: (json) => ({ subject: json.workspace_id || "default" })
+    }, store, usage);
+    this.client = new NotionClient(
+      this.oauth,
+      new RequestScheduler(cfg.requestsPerSecond ?? 3, cfg.queueMaxWaitMs ?? 30_000),
+      new TtlCache<NotionResponse>(cfg.cacheMaxEntries ?? 1000)
+    );
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...cfg.cacheTtls };
+    this.events = events;
+    this.webhookToken = cfg.webhookVerificationToken;
 
     const subjectField = z.object({ subject: z.string().optional() }).partial();
 
@@ -45,46 +136,40 @@ export class NotionProvider extends Provider {
       name: "getSelf",
       title: "Notion: Get Bot User",
       description: "Returns the bot user and workspace for the current token.",
-      inputSchema: subjectField,
+      annotations: { readOnlyHint: true },
+      inputSchema: subjectField.extend({ format: outputFormat }),
+      outputSchema: objectOutput,
       handler: async (args) => {
-        const { token, rec } = await this.getAccessToken(args.subject);
-        let res = await notionFetch(token, "users/me", "GET");
-        if (!res.ok && res.status === 401 && rec?.refresh_token) {
-          const r = await this.refresh(rec.refresh_token);
-          await this.upsertFromRefresh(rec, r);
-          res = await notionFetch(r.access_token, "users/me", "GET");
-        }
-        if (!res.ok) throw new Error("getSelf failed: " + JSON.stringify(res.json));
-        return { content: [{ type: "text", text: JSON.stringify(res.json, null, 2) }] };
+        const res = await this.client.request(args.subject, "users/me", "GET");
+        if (!res.ok) throw notionError("getSelf", res);
+        return formatNotion(args.format, res.json);
       }
     });
 
     this.registerTool({
       name: "search",
       title: "Notion: Search",
-      description: "Search your Notion workspace",
+      description: "Search your Notion workspace. Set fetch_all or max_items to follow pagination automatically.",
+      annotations: { readOnlyHint: true },
       inputSchema: z.object({
         subject: z.string().optional(),
         query: z.string().default(""),
         filter: z.any().optional(),
         sort: z.any().optional(),
         start_cursor: z.string().optional(),
-        page_size: z.number().int().min(1).max(100).default(25)
+        page_size: z.number().int().min(1).max(100).default(25),
+        ...paginationFields,
+        ...cacheField,
+        format: outputFormat
       }),
-      handler: async (args) => {
-        const { token, rec } = await this.getAccessToken(args.subject);
+      outputSchema: listOutput,
+      handler: async (args, extra) => {
         const body: any = { query: args.query, page_size: args.page_size };
         if (args.filter) body.filter = args.filter;
         if (args.sort) body.sort = args.sort;
         if (args.start_cursor) body.start_cursor = args.start_cursor;
-        let res = await notionFetch(token, "search", "POST", body);
-        if (!res.ok && res.status === 401 && rec?.refresh_token) {
-          const r = await this.refresh(rec.refresh_token);
-          await this.upsertFromRefresh(rec, r);
-          res = await notionFetch(r.access_token, "search", "POST", body);
-        }
-        if (!res.ok) throw new Error("search failed: " + JSON.stringify(res.json));
-        return { content: [{ type: "text", text: JSON.stringify(res.json, null, 2) }] };
+        const json = await this.list("search", args, "search", body, extra, this.cacheFor("search", args, ["search"]));
+        return formatNotion(args.format, json);
       }
     });
 
@@ -92,179 +177,789 @@ export class NotionProvider extends Provider {
       name: "fetchPage",
       title: "Notion: Fetch Page",
       description: "Fetch page metadata by ID",
-      inputSchema: z.object({ subject: z.string().optional(), page_id: z.string() }),
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({ subject: z.string().optional(), page_id: z.string(), ...cacheField, format: outputFormat }),
+      outputSchema: objectOutput,
       handler: async (args) => {
-        const { token, rec } = await this.getAccessToken(args.subject);
-        let res = await notionFetch(token, `pages/${args.page_id}`, "GET");
-        if (!res.ok && res.status === 401 && rec?.refresh_token) {
-          const r = await this.refresh(rec.refresh_token);
-          await this.upsertFromRefresh(rec, r);
-          res = await notionFetch(r.access_token, `pages/${args.page_id}`, "GET");
-        }
-        if (!res.ok) throw new Error("fetchPage failed: " + JSON.stringify(res.json));
-        return { content: [{ type: "text", text: JSON.stringify(res.json, null, 2) }] };
+        const res = await this.client.request(args.subject, `pages/${args.page_id}`, "GET", undefined, this.cacheFor("fetchPage", args, [args.page_id]));
+        if (!res.ok) throw notionError("fetchPage", res);
+        return formatNotion(args.format, res.json);
       }
     });
 
     this.registerTool({
       name: "queryDatabase",
       title: "Notion: Query Database",
-      description: "Query a database with optional filter/sort",
+      description: "Query a database with optional filter/sort. Set fetch_all or max_items to follow pagination automatically.",
+      annotations: { readOnlyHint: true },
       inputSchema: z.object({
         subject: z.string().optional(),
         database_id: z.string(),
         filter: z.any().optional(),
         sorts: z.any().optional(),
         start_cursor: z.string().optional(),
-        page_size: z.number().int().min(1).max(100).default(25)
+        page_size: z.number().int().min(1).max(100).default(25),
+        ...paginationFields,
+        ...cacheField,
+        format: outputFormat
       }),
-      handler: async (args) => {
-        const { token, rec } = await this.getAccessToken(args.subject);
+      outputSchema: listOutput,
+      handler: async (args, extra) => {
         const body: any = { page_size: args.page_size };
         if (args.filter) body.filter = args.filter;
         if (args.sorts) body.sorts = args.sorts;
         if (args.start_cursor) body.start_cursor = args.start_cursor;
-        let res = await notionFetch(token, `databases/${args.database_id}/query`, "POST", body);
-        if (!res.ok && res.status === 401 && rec?.refresh_token) {
-          const r = await this.refresh(rec.refresh_token);
-          await this.upsertFromRefresh(rec, r);
-          res = await notionFetch(r.access_token, `databases/${args.database_id}/query`, "POST", body);
-        }
-        if (!res.ok) throw new Error("queryDatabase failed: " + JSON.stringify(res.json));
-        return { content: [{ type: "text", text: JSON.stringify(res.json, null, 2) }] };
+        const json = await this.list("queryDatabase", args, `databases/${args.database_id}/query`, body, extra, this.cacheFor("queryDatabase", args, [args.database_id]));
+        return formatNotion(args.format, json);
+      }
+    });
+
+    this.registerTool({
+      name: "describeDatabase",
+      title: "Notion: Describe Database",
+      description: "Return a compact database schema: property names, types, and select/multi-select/status options. Use it before writing flat property values.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({ subject: z.string().optional(), database_id: z.string(), ...cacheField }),
+      outputSchema: z.object({
+        id: z.string(),
+        title: z.string(),
+        url: z.string().optional(),
+        properties: z.record(z.string(), z.object({ type: z.string(), options: z.array(z.string()).optional(), database_id: z.string().optional() }))
+      }),
+      handler: async (args) => {
+        const schema = await this.databaseSchema(args.subject, args.database_id, this.cacheFor("describeDatabase", args, [args.database_id]));
+        return structuredResult({ ...schema });
       }
     });
 
     this.registerTool({
       name: "createPage",
       title: "Notion: Create Page",
-      description: "Create a new page (supply a parent and properties).",
+      description: "Create a new page (supply a parent and properties). Properties may be flat values (e.g. { \"Status\": \"Done\" }), validated against the parent database's schema.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
       inputSchema: z.object({
         subject: z.string().optional(),
-        parent: z.any(),
-        properties: z.record(z.any()),
-        children: z.array(z.any()).optional()
+        parent: z.union([z.object({ page_id: z.string() }), z.object({ database_id: z.string() })])
+          .describe("Where to create the page: { \"page_id\": ... } for a sub-page or { \"database_id\": ... } for a database row"),
+        properties: propertyInputs,
+        children: z.array(z.any()).optional(),
+        markdown: z.string().optional().describe("Page body as Markdown; converted to Notion blocks and appended after any raw children."),
+        format: outputFormat
       }),
+      outputSchema: objectOutput,
       handler: async (args) => {
-        const { token, rec } = await this.getAccessToken(args.subject);
+        const blocks: NotionBlock[] = [...(args.children || []), ...(args.markdown ? markdownToBlocks(args.markdown) : [])];
+        const { send, deferred } = splitForRequest(blocks.slice(0, MAX_CHILDREN_PER_REQUEST));
         const body: any = { parent: args.parent, properties: args.properties };
-        if (args.children) body.children = args.children;
-        let res = await notionFetch(token, `pages`, "POST", body);
-        if (!res.ok && res.status === 401 && rec?.refresh_token) {
-          const r = await this.refresh(rec.refresh_token);
-          await this.upsertFromRefresh(rec, r);
-          res = await notionFetch(r.access_token, `pages`, "POST", body);
+        if (needsSchema(args.properties)) {
+          const schema = args.parent?.database_id ? await this.databaseSchema(args.subject, args.parent.database_id) : pageSchema(null);
+          body.properties = coerceProperties(schema, args.properties);
+        }
+        if (send.length) body.children = send;
+        const res = await this.client.request(args.subject, `pages`, "POST", body);
+        if (!res.ok) throw notionError("createPage", res);
+        if (deferred.size) await this.appendDeferred(args.subject, res.json.id, deferred);
+        if (blocks.length > MAX_CHILDREN_PER_REQUEST) {
+          await this.appendBlocks(args.subject, res.json.id, blocks.slice(MAX_CHILDREN_PER_REQUEST));
         }
-        if (!res.ok) throw new Error("createPage failed: " + JSON.stringify(res.json));
-        return { content: [{ type: "text", text: JSON.stringify(res.json, null, 2) }] };
+        return formatNotion(args.format, res.json);
       }
     });
-  }
 
-  mountOAuth(app: express.Express) {
-    app.get("/auth/notion", (_req, res) => {
-      if (this.cfg.staticToken) return res.status(200).send("Static token mode enabled; OAuth not required.");
-      if (!this.cfg.clientId || !this.cfg.redirectUri) {
-        return res.status(400).send("Notion OAuth not configured. Set NOTION_CLIENT_ID and NOTION_REDIRECT_URI.");
+    this.registerTool({
+      name: "appendContent",
+      title: "Notion: Append Content",
+      description: "Append Markdown content to the end of a page or block (or after a given child block).",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        block_id: z.string().describe("Page or block ID to append to"),
+        markdown: z.string(),
+        after: z.string().optional().describe("Insert after this child block instead of at the end")
+      }),
+      outputSchema: z.object({ block_id: z.string(), appended: z.number(), block_ids: z.array(z.string()) }),
+      handler: async (args) => {
+        const blocks = markdownToBlocks(args.markdown);
+        if (!blocks.length) throw new Error("appendContent: markdown produced no blocks");
+        const ids = await this.appendBlocks(args.subject, args.block_id, blocks, args.after);
+        return structuredResult({ block_id: args.block_id, appended: ids.length, block_ids: ids });
+      }
+    });
+    this.registerTool({
+      name: "readPage",
+      title: "Notion: Read Page",
+      description: "Fetch a page and all of its nested block content, rendered as Markdown. Depth and block-count limits bound the walk on large pages.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        page_id: z.string(),
+        max_depth: z.number().int().min(1).max(10).default(5),
+        max_blocks: z.number().int().min(1).max(5000).default(1000),
+        ...cacheField
+      }),
+      outputSchema: z.object({
+        page_id: z.string(),
+        title: z.string(),
+        url: z.string(),
+        block_count: z.number(),
+        truncated: z.boolean(),
+        markdown: z.string()
+      }),
+      handler: async (args) => {
+        const page = await this.renderPage(args.subject, args.page_id, { maxDepth: args.max_depth, maxBlocks: args.max_blocks }, args);
+        return structuredResult(page, page.markdown);
       }
-      const state = Math.random().toString(36).slice(2);
-      const url = new URL("https://api.notion.com/v1/oauth/authorize");
-      url.searchParams.set("client_id", this.cfg.clientId);
-      url.searchParams.set("response_type", "code");
-      url.searchParams.set("owner", "user");
-      url.searchParams.set("redirect_uri", this.cfg.redirectUri);
-      url.searchParams.set("state", state);
-      if (this.cfg.usePkce) {
-        const code_verifier = [...Array(64)].map(()=>Math.random().toString(36)[2]).join('');
-        const enc = new TextEncoder();
-        // S256 challenge
-        // @ts-ignore
-        const cryptoObj = globalThis.crypto || (await import('node:crypto')).webcrypto;
-        // @ts-ignore
-        const digest = await cryptoObj.subtle.digest('SHA-256', enc.encode(code_verifier));
-        const base64url = Buffer.from(new Uint8Array(digest)).toString('base64').replace(/\+/g,'-').replace(/\//g,'_').replace(/=+$/,'');
-        url.searchParams.set("code_challenge_method", "S256");
-        url.searchParams.set("code_challenge", base64url);
-        this.pkceByState.set(state, code_verifier);
+    });
+    this.registerTool({
+      name: "updatePageProperties",
+      title: "Notion: Update Page Properties",
+      description: "Update property values (and optionally icon/cover) of an existing page. Only the properties given are changed; flat values are validated against the page's database schema.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        page_id: z.string(),
+        properties: propertyInputs.optional(),
+        icon: icon.nullable().optional(),
+        cover: cover.nullable().optional(),
+        format: outputFormat
+      }),
+      outputSchema: objectOutput,
+      handler: async (args) => {
+        const body: any = {};
+        if (args.properties) body.properties = await this.resolvePageProperties(args.subject, args.page_id, args.properties);
+        if (args.icon !== undefined) body.icon = args.icon;
+        if (args.cover !== undefined) body.cover = args.cover;
+        if (!Object.keys(body).length) throw new Error("updatePageProperties: nothing to update");
+        const res = await this.client.request(args.subject, `pages/${args.page_id}`, "PATCH", body);
+        if (!res.ok) throw notionError("updatePageProperties", res);
+        return formatNotion(args.format, res.json);
       }
-      res.redirect(url.toString());
     });
 
-    app.get("/oauth/notion/callback", async (req, res) => {
-      const code = (req.query.code as string) || "";
-      const state = (req.query.state as string) || "";
-      if (!code) return res.status(400).send("Missing code");
-      try {
-        const headers: Record<string,string> = {
-          "Accept": "application/json",
-          "Content-Type": "application/json"
+    this.registerTool({
+      name: "archivePage",
+      title: "Notion: Archive Page",
+      description: "Move a page (or database row) to the trash. It can be brought back with restorePage.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({ subject: z.string().optional(), page_id: z.string() }),
+      outputSchema: z.object({ page_id: z.string(), archived: z.boolean() }),
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, `pages/${args.page_id}`, "PATCH", { archived: true });
+        if (!res.ok) throw notionError("archivePage", res);
+        return structuredResult({ page_id: res.json.id, archived: res.json.archived });
+      }
+    });
+
+    this.registerTool({
+      name: "restorePage",
+      title: "Notion: Restore Page",
+      description: "Restore an archived page from the trash.",
+      annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+      inputSchema: z.object({ subject: z.string().optional(), page_id: z.string() }),
+      outputSchema: z.object({ page_id: z.string(), archived: z.boolean() }),
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, `pages/${args.page_id}`, "PATCH", { archived: false });
+        if (!res.ok) throw notionError("restorePage", res);
+        return structuredResult({ page_id: res.json.id, archived: res.json.archived });
+      }
+    });
+
+    this.registerTool({
+      name: "updateBlock",
+      title: "Notion: Update Block",
+      description: "Replace the text of a block (inline Markdown allowed) and/or its to-do checked state or code language. The block keeps its type.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        block_id: z.string(),
+        text: z.string().optional(),
+        checked: z.boolean().optional().describe("to_do blocks only"),
+        language: z.string().optional().describe("code blocks only"),
+        format: outputFormat
+      }),
+      outputSchema: objectOutput,
+      handler: async (args) => {
+        const cur = await this.client.request(args.subject, `blocks/${args.block_id}`, "GET");
+        if (!cur.ok) throw notionError("updateBlock", cur);
+        const type: string = cur.json.type;
+        const data: any = {};
+        if (args.text !== undefined) {
+          data.rich_text = type === "code" ? [{ type: "text", text: { content: args.text } }] : markdownToRichText(args.text);
+        }
+        if (args.checked !== undefined) {
+          if (type !== "to_do") throw new Error(`updateBlock: 'checked' only applies to to_do blocks, not ${type}`);
+          data.checked = args.checked;
+        }
+        if (args.language !== undefined) {
+          if (type !== "code") throw new Error(`updateBlock: 'language' only applies to code blocks, not ${type}`);
+          data.language = notionLanguage(args.language);
+        }
+        if (!Object.keys(data).length) throw new Error("updateBlock: nothing to update");
+        const res = await this.client.request(args.subject, `blocks/${args.block_id}`, "PATCH", { [type]: data });
+        if (!res.ok) throw notionError("updateBlock", res);
+        return formatNotion(args.format, res.json);
+      }
+    });
+
+    this.registerTool({
+      name: "deleteBlock",
+      title: "Notion: Delete Block",
+      description: "Delete (archive) a block and everything nested under it.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+      inputSchema: z.object({ subject: z.string().optional(), block_id: z.string() }),
+      outputSchema: z.object({ block_id: z.string(), archived: z.boolean() }),
+      handler: async (args) => {
+        const res = await this.client.request(args.subject, `blocks/${args.block_id}`, "DELETE");
+        if (!res.ok) throw notionError("deleteBlock", res);
+        return structuredResult({ block_id: res.json.id, archived: res.json.archived });
+      }
+    });
+
+    this.registerTool({
+      name: "moveContent",
+      title: "Notion: Move Content",
+      description: "Move blocks (with their nested content) under another page or block. Notion has no native move, so blocks are re-created at the target and the originals deleted; block IDs change. Child pages/databases and Notion-hosted files cannot be moved.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        block_ids: z.array(z.string()).min(1).max(100),
+        target_id: z.string().describe("Page or block ID to move the blocks under"),
+        after: z.string().optional().describe("Insert after this child of the target instead of at the end")
+      }),
+      outputSchema: z.object({ target_id: z.string(), moved: z.array(z.string()), new_block_ids: z.array(z.string()) }),
+      handler: async (args) => {
+        const blocks: NotionBlock[] = [];
+        for (const id of args.block_ids as string[]) {
+          const res = await this.client.request(args.subject, `blocks/${id}`, "GET");
+          if (!res.ok) throw notionError("moveContent", res);
+          const b: NotionBlock = res.json;
+          if (b.has_children && !UNMOVABLE_BLOCKS.has(b.type)) {
+            const tree = await this.fetchBlockTree(args.subject, id, { maxDepth: 10, maxBlocks: 1000 });
+            if (tree.truncated) throw new Error(`moveContent: block ${id} is too large to move`);
+            b.children = tree.blocks;
+          }
+          blocks.push(b);
+        }
+        // Validate everything before writing anything.
+        const creatable = blocks.map(toCreatable);
+        const ids = await this.appendBlocks(args.subject, args.target_id, creatable, args.after);
+        for (const id of args.block_ids as string[]) {
+          const res = await this.client.request(args.subject, `blocks/${id}`, "DELETE");
+          if (!res.ok) throw notionError(`moveContent: copied to ${args.target_id} but deleting original ${id}`, res);
+        }
+        return structuredResult({ target_id: args.target_id, moved: args.block_ids, new_block_ids: ids });
+      }
+    });
+
+    this.registerBulkTools();
+    if (this.events) this.registerChangeTools(this.events);
+    this.registerResources();
+  }
+
+  private registerBulkTools() {
+    this.registerTool({
+      name: "importRows",
+      title: "Notion: Import Rows",
+      description: "Create database rows from CSV or JSON rows, or upsert them by a key property. Columns map to properties by name unless a mapping is given; values are coerced like createPage's flat properties. A row with an `id` (as exportDatabase writes) updates that page; read-only columns are skipped. Use dry_run to validate first. Returns a per-row report; a failed row doesn't stop the import.",
+      annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: false },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        database_id: z.string(),
+        csv: z.string().optional().describe("CSV text with a header row"),
+        rows: z.array(z.record(z.string(), z.any())).max(MAX_IMPORT_ROWS).optional().describe("Rows as objects keyed by column"),
+        mapping: z.record(z.string(), z.string()).optional()
+          .describe("Column -> property name; columns not listed are ignored. Default: every column names its property"),
+        key_property: z.string().optional()
+          .describe("Upsert: update the row whose value of this property equals the imported one, create it if there is none"),
+        dry_run: z.boolean().default(false).describe("Validate and report what would happen without writing")
+      }),
+      outputSchema: z.object({
+        database_id: z.string(),
+        dry_run: z.boolean(),
+        total: z.number(),
+        created: z.number(),
+        updated: z.number(),
+        failed: z.number(),
+        rows: z.array(z.object({
+          row: z.number(),
+          action: z.enum(["create", "update"]).nullable(),
+          ok: z.boolean(),
+          page_id: z.string().optional(),
+          key: z.string().optional(),
+          error: z.string().optional()
+        }))
+      }),
+      handler: async (args, extra) => {
+        if ((args.csv === undefined) === (args.rows === undefined)) throw new Error("importRows: pass exactly one of csv or rows");
+        const rows: Row[] = args.csv !== undefined ? parseCsv(args.csv) : args.rows!;
+        if (rows.length > MAX_IMPORT_ROWS) throw new Error(`importRows: ${rows.length} rows; at most ${MAX_IMPORT_ROWS} per call`);
+        const schema = await this.databaseSchema(args.subject, args.database_id);
+        const names = Object.keys(schema.properties);
+        const keyProperty = args.key_property === undefined ? undefined
+          : names.find(n => n === args.key_property) ?? names.find(n => n.toLowerCase() === args.key_property!.toLowerCase());
+        if (args.key_property !== undefined && !keyProperty) {
+          throw new Error(`importRows: unknown key_property '${args.key_property}'. Valid properties: ${names.join(", ")}`);
+        }
+        // key value -> ids of existing rows; rows created by this import are added as they go.
+        const existing = new Map<string, string[]>();
+        const planned = new Set<string>(); // stand-ins for rows a dry run would create
+        const owned = new Map<string, Promise<void>>(); // row ids already checked against the database
+        if (keyProperty) {
+          const all = await this.list("importRows", { subject: args.subject, fetch_all: true }, `databases/${args.database_id}/query`, {}, undefined, undefined, MAX_BULK_ROWS);
+          if (all.truncated) throw new Error(`importRows: the database has more than ${MAX_BULK_ROWS} rows; upserts need to read all of them`);
+          for (const page of all.results) {
+            const key = keyValue(flattenRow(page, [keyProperty])[keyProperty]);
+            if (key) existing.set(key, [...existing.get(key) ?? [], page.id]);
+          }
+        }
+
+        const report: any[] = [];
+        for (const [i, row] of rows.entries()) {
+          const entry: any = { row: i + 1, action: null, ok: false };
+          report.push(entry);
+          if (extra?.signal.aborted) {
+            entry.error = "not run: the import was cancelled";
+            continue;
+          }
+          try {
+            const { pageId: target, properties: input } = mapRow(row, schema, args.mapping);
+            const properties = coerceProperties(schema, input);
+            // An exported row names its page; otherwise the key property finds it.
+            let pageId = target;
+            if (pageId) await this.checkImportTarget(args.subject, args.database_id, pageId, owned);
+            if (!pageId && keyProperty) {
+              const key = keyValue(Object.entries(input).find(([k]) => k.toLowerCase() === keyProperty.toLowerCase())?.[1]);
+              if (!key) throw new Error(`no value for key property '${keyProperty}'`);
+              entry.key = key;
+              const matches = existing.get(key) ?? [];
+              if (matches.length > 1) throw new Error(`${matches.length} rows have ${keyProperty} '${key}'`);
+              pageId = matches[0];
+            }
+            entry.action = pageId ? "update" : "create";
+            if (pageId && !planned.has(pageId)) entry.page_id = pageId;
+            if (!args.dry_run) {
+              const res = pageId
+                ? await this.client.request(args.subject, `pages/${pageId}`, "PATCH", { properties })
+                : await this.client.request(args.subject, `pages`, "POST", { parent: { database_id: args.database_id }, properties });
+              if (!res.ok) throw notionError(pageId ? "updatePageProperties" : "createPage", res);
+              entry.page_id = res.json.id;
+            }
+            // Later rows with the same key update this one rather than creating a duplicate.
+            if (entry.key && !pageId) {
+              const id = entry.page_id ?? `row ${entry.row}`;
+              if (!entry.page_id) planned.add(id);
+              existing.set(entry.key, [id]);
+            }
+            entry.ok = true;
+          } catch (e: any) {
+            entry.error = e?.message || String(e);
+          }
+          await reportProgress(extra, i + 1, rows.length, `Imported ${i + 1} of ${rows.length} rows`);
+        }
+
+        const count = (action: string) => report.filter(r => r.ok && r.action === action).length;
+        const summary = {
+          database_id: args.database_id,
+          dry_run: args.dry_run,
+          total: rows.length,
+          created: count("create"),
+          updated: count("update"),
+          failed: report.filter(r => !r.ok).length
         };
-        let body: any = { grant_type: "authorization_code", code, redirect_uri: this.cfg.redirectUri };
-        if (this.cfg.usePkce) {
-          const verifier = this.pkceByState.get(state);
-          if (!verifier) return res.status(400).send("Missing PKCE verifier for state");
-          body.code_verifier = verifier;
+        const text = `${args.dry_run ? "Dry run: would create" : "Created"} ${summary.created}, ${args.dry_run ? "update" : "updated"} ${summary.updated}, failed ${summary.failed} of ${summary.total} rows.`;
+        return structuredResult({ ...summary, rows: report }, [text, ...report.filter(r => !r.ok).map(r => `- row ${r.row}: ${r.error}`)].join("\n"));
+      }
+    });
+
+    this.registerTool({
+      name: "exportDatabase",
+      title: "Notion: Export Database",
+      description: `Read every row of a database (optionally filtered/sorted) as CSV or JSONL with flat property values: id, url, then one column per property. Lists are joined with ", " in CSV. At most ${MAX_BULK_ROWS} rows.`,
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        database_id: z.string(),
+        format: z.enum(["csv", "jsonl"]).default("csv"),
+        properties: z.array(z.string()).optional().describe("Columns to export, in order (default: all properties)"),
+        filter: z.any().optional(),
+        sorts: z.any().optional(),
+        max_rows: z.number().int().min(1).max(MAX_BULK_ROWS).optional()
+      }),
+      outputSchema: z.object({
+        database_id: z.string(),
+        format: z.enum(["csv", "jsonl"]),
+        columns: z.array(z.string()),
+        row_count: z.number(),
+        truncated: z.boolean(),
+        data: z.string()
+      }),
+      handler: async (args, extra) => {
+        const schema = await this.databaseSchema(args.subject, args.database_id);
+        const names = Object.keys(schema.properties);
+        const columns: string[] = args.properties ?? [...names].sort((a, b) => Number(schema.properties[b].type === "title") - Number(schema.properties[a].type === "title"));
+        const unknown = columns.filter(c => !names.includes(c));
+        if (unknown.length) throw new Error(`exportDatabase: unknown properties ${unknown.join(", ")}. Valid properties: ${names.join(", ")}`);
+        const body: any = {};
+        if (args.filter) body.filter = args.filter;
+        if (args.sorts) body.sorts = args.sorts;
+        const all = await this.list("exportDatabase", { subject: args.subject, fetch_all: true, max_items: args.max_rows }, `databases/${args.database_id}/query`, body, extra, undefined, MAX_BULK_ROWS);
+        const rows = all.results.map((page: any) => flattenRow(page, columns));
+        const data = args.format === "csv" ? toCsv(["id", "url", ...columns], rows) : toJsonl(rows);
+        return structuredResult({
+          database_id: args.database_id,
+          format: args.format,
+          columns: ["id", "url", ...columns],
+          row_count: rows.length,
+          truncated: !!all.truncated,
+          data
+        }, data);
+      }
+    });
+  }
+
+  // A row's `id` may come from a stale or edited file: only update pages that are rows of this database.
+  private checkImportTarget(subject: string | undefined, databaseId: string, pageId: string, checked: Map<string, Promise<void>>) {
+    let check = checked.get(pageId);
+    if (!check) {
+      check = (async () => {
+        const res = await this.client.request(subject, `pages/${pageId}`, "GET");
+        if (res.status === 404) throw new Error(`page ${pageId} not found`);
+        if (!res.ok) throw notionError("fetchPage", res);
+        const parent = res.json.parent?.database_id;
+        if (!parent || normalizeId(parent) !== normalizeId(databaseId)) throw new Error(`page ${pageId} is not a row of database ${databaseId}`);
+        if (res.json.archived || res.json.in_trash) throw new Error(`page ${pageId} is archived`);
+      })();
+      checked.set(pageId, check);
+    }
+    return check;
+  }
+
+  private registerChangeTools(events: EventStore) {
+    this.registerTool({
+      name: "recentChanges",
+      title: "Notion: Recent Changes",
+      description: "Read changes Notion reported through webhooks, oldest first. Without a cursor, returns the latest events; pass next_cursor back to get only newer ones.",
+      annotations: { readOnlyHint: true },
+      inputSchema: z.object({
+        subject: z.string().optional(),
+        cursor: z.string().regex(/^\d+$/).optional(),
+        limit: z.number().int().min(1).max(100).default(50),
+        types: z.array(z.string()).optional().describe("Event types to include, e.g. page.content_updated"),
+        object_id: z.string().optional().describe("Only events for this page/database or its children")
+      }),
+      outputSchema: z.object({
+        events: z.array(z.object({
+          cursor: z.string(),
+          id: z.string(),
+          type: z.string(),
+          entity_id: z.string().nullable(),
+          entity_type: z.string().nullable(),
+          parent_id: z.string().nullable(),
+          occurred_at: z.string(),
+          authors: z.array(z.any()).optional()
+        })),
+        next_cursor: z.string().nullable(),
+        has_more: z.boolean()
+      }),
+      handler: async (args) => {
+        const rows = await events.list({
+          provider: this.name,
+          subject: args.subject ?? "default",
+          after: args.cursor === undefined ? undefined : Number(args.cursor),
+          limit: args.limit + 1,
+          types: args.types,
+          entityId: args.object_id
+        });
+        // Without a cursor the store returns the newest limit+1; drop the oldest instead of the newest.
+        const hasMore = args.cursor !== undefined && rows.length > args.limit;
+        const page = args.cursor === undefined ? rows.slice(-args.limit) : rows.slice(0, args.limit);
+        const last = page[page.length - 1];
+        return structuredResult({
+          events: page.map(e => ({
+            cursor: String(e.seq),
+            id: e.id,
+            type: e.type,
+            entity_id: e.entity_id ?? null,
+            entity_type: e.entity_type ?? null,
+            parent_id: e.parent_id ?? null,
+            occurred_at: e.occurred_at,
+            authors: e.data?.authors
+          })),
+          next_cursor: last ? String(last.seq) : args.cursor ?? null,
+          has_more: hasMore
+        });
+      }
+    });
+  }
+
+  /**
+   * Receives Notion webhook deliveries at POST /webhooks/notion. The first delivery of a new
+   * subscription carries its verification token, which must be configured before events are
+   * accepted. Events are routed to the subject whose token belongs to the event's workspace.
+   */
+  mountRoutes(app: express.Express) {
+    const events = this.events;
+    if (!events) return;
+    app.post(`/webhooks/${this.name}`, async (req, res) => {
+      const body = req.body ?? {};
+      if (typeof body.verification_token === "string" && !body.type) {
+        // The token is the signing secret, and this request is unauthenticated: it is logged only
+        // while no token is configured, and only once per process.
+        if (!this.webhookToken && !this.verificationLogged) {
+          this.verificationLogged = true;
+          logger.warn({ verification_token: body.verification_token }, "Notion webhook verification request received; set NOTION_WEBHOOK_VERIFICATION_TOKEN to this token and verify the subscription in Notion");
         } else {
-          headers["Authorization"] = basicAuthHeader(this.cfg.clientId, this.cfg.clientSecret);
+          logger.info("Notion webhook verification request received");
         }
-        const { ok, status, json } = await httpWithRetry("POST", `${NOTION_API}/oauth/token`, headers, body, { retries: 1 });
-        if (!ok) throw new Error(`Notion token exchange failed (${status}): ${JSON.stringify(json)}`);
-        const subject = json.workspace_id || "default";
-        const rec: TokenRecord = {
-          provider: "notion",
-          subject,
-          access_token: json.access_token,
-          refresh_token: json.refresh_token,
-          scope: Array.isArray(json.scope) ? json.scope.join(" ") : (json.scope || null),
-          workspace_id: json.workspace_id,
-          workspace_name: json.workspace_name,
-          bot_id: json.bot_id,
-          raw: json
-        };
-        await this.store.upsertToken(rec);
-        res.status(200).send("✅ Notion authorized. You can close this tab.");
+        return void res.status(200).json({ ok: true });
+      }
+      if (!this.webhookToken) return void res.status(503).json({ error: "Notion webhooks are not configured" });
+      const raw: Buffer | undefined = (req as any).rawBody;
+      if (!raw || !verifyNotionSignature(this.webhookToken, raw, req.header("x-notion-signature"))) {
+        logger.warn({ event_id: body.id }, "Rejected Notion webhook with a bad signature");
+        return void res.status(401).json({ error: "Invalid signature" });
+      }
+      if (!body.id || !body.type) return void res.status(400).json({ error: "Not a Notion event" });
+      try {
+        const subject = (body.workspace_id && await this.store.subjectForWorkspace(this.name, body.workspace_id))
+          ?? (this.oauth.config.staticToken ? "default" : null);
+        if (!subject) {
+          // Acknowledge anyway so Notion doesn't keep retrying an event nobody can read.
+          logger.warn({ workspace_id: body.workspace_id, type: body.type }, "Notion webhook for an unknown workspace");
+          return void res.status(202).json({ ok: true, ignored: "unknown workspace" });
+        }
+        const stored = await events.append(notionEvent(body, subject));
+        logger.info({ event_id: body.id, type: body.type, subject, duplicate: !stored }, "Notion webhook received");
+        res.status(200).json({ ok: true });
       } catch (e: any) {
-        res.status(500).send("❌ Notion OAuth failed: " + e.message);
-      } finally {
-        if (state) this.pkceByState.delete(state);
+        logger.error({ err: e?.message, event_id: body.id }, "Failed to record Notion webhook");
+        res.status(500).json({ error: "Failed to record event" });
+      }
+    });
+  }
+
+  async checkToken(subject: string): Promise<TokenCheck> {
+    try {
+      const res = await this.client.request(subject, "users/me", "GET");
+      if (!res.ok) return { ok: false, status: res.status, detail: notionError("users/me", res).message };
+      return { ok: true, status: res.status, identity: compactUser(res.json) };
+    } catch (e: any) {
+      return { ok: false, detail: e?.message || String(e) };
+    }
+  }
+
+  // Changes made outside the hub: drop stale cached reads and tell subscribers which resources changed.
+  handleEvent(event: ProviderEvent): ResourceChanges {
+    this.client.invalidate(event.subject, notionEventIds(event));
+    return notionResourceChanges(event);
+  }
+
+  private registerResources() {
+    this.registerResource({
+      name: "page",
+      title: "Notion page",
+      description: "A Notion page with its nested content rendered as Markdown. Lists recently edited pages.",
+      mimeType: "text/markdown",
+      template: "notion://page/{id}",
+      tool: "readPage",
+      toolArgs: vars => ({ page_id: vars.id }),
+      list: subject => this.recentResources(subject, "page"),
+      read: async (uri, vars, subject) => {
+        const page = await this.renderPage(subject, vars.id, { maxDepth: 5, maxBlocks: 1000 }, {});
+        return { contents: [{ uri: uri.href, mimeType: "text/markdown", text: page.markdown }] };
       }
     });
+    this.registerResource({
+      name: "database",
+      title: "Notion database",
+      description: `A Notion database's compact schema plus its first ${RESOURCE_DATABASE_ROWS} rows, as JSON. Lists recently edited databases.`,
+      mimeType: "application/json",
+      template: "notion://database/{id}",
+      tool: "queryDatabase",
+      toolArgs: vars => ({ database_id: vars.id }),
+      list: subject => this.recentResources(subject, "database"),
+      read: async (uri, vars, subject) => {
+        const schema = await this.databaseSchema(subject, vars.id, this.cacheFor("describeDatabase", {}, [vars.id]));
+        const res = await this.client.request(subject, `databases/${vars.id}/query`, "POST", { page_size: RESOURCE_DATABASE_ROWS }, this.cacheFor("queryDatabase", {}, [vars.id]));
+        if (!res.ok) throw notionError("queryDatabase", res);
+        const data = { schema, rows: res.json.results.map(compactPage), has_more: !!res.json.has_more };
+        return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data) }] };
+      }
+    });
+  }
+
+  // Recently edited pages or databases, newest first, as resources/list entries.
+  private async recentResources(subject: string | undefined, kind: "page" | "database") {
+    const body = {
+      filter: { property: "object", value: kind },
+      sort: { direction: "descending", timestamp: "last_edited_time" },
+      page_size: RESOURCE_LIST_SIZE
+    };
+    const res = await this.client.request(subject, "search", "POST", body, this.cacheFor("search", {}, ["search"]));
+    if (!res.ok) throw notionError("search", res);
+    return res.json.results.map((o: any) => {
+      const c: any = kind === "page" ? compactPage(o) : compactDatabase(o);
+      return {
+        uri: `notion://${kind}/${c.id}`,
+        name: c.title || "Untitled",
+        title: c.title || "Untitled",
+        mimeType: kind === "page" ? "text/markdown" : "application/json",
+        description: `Last edited ${c.last_edited_time}`
+      };
+    });
   }
 
-  private async getAccessToken(subject?: string): Promise<{ token: string, rec: TokenRecord | null }> {
-    if (this.cfg.staticToken) return { token: this.cfg.staticToken, rec: null };
-    const s = subject || "default";
-    const rec = await this.store.getToken("notion", s);
-    if (!rec) throw new Error(`No Notion token for subject '${s}'. Visit /auth/notion or set NOTION_STATIC_TOKEN.`);
-    return { token: rec.access_token, rec };
+  // Fetches a page and its block tree and renders it as Markdown (readPage and the page resource).
+  private async renderPage(subject: string | undefined, pageId: string, limits: BlockTreeLimits, args: { cache?: "default" | "bypass" }) {
+    const page = await this.client.request(subject, `pages/${pageId}`, "GET", undefined, this.cacheFor("readPage", args, [pageId]));
+    if (!page.ok) throw notionError("readPage", page);
+    const tree = await this.fetchBlockTree(subject, pageId, limits, id => this.cacheFor("readPage", args, [id]));
+    const title = pageTitle(page.json);
+    const url = page.json.url || notionUrl(pageId);
+    let md = `# ${title}\n\n${blocksToMarkdown(tree.blocks)}`;
+    if (tree.truncated) {
+      md += `\n\n_[Truncated: stopped after ${tree.count} blocks / depth ${limits.maxDepth}. Open ${url} for the full page.]_`;
+    }
+    return { page_id: page.json.id as string, title, url, block_count: tree.count, truncated: tree.truncated, markdown: md };
   }
 
-  private async upsertFromRefresh(old: TokenRecord, refreshed: any) {
-    const rec: TokenRecord = {
-      provider: "notion",
-      subject: old.subject,
-      access_token: refreshed.access_token,
-      refresh_token: refreshed.refresh_token ?? old.refresh_token,
-      scope: Array.isArray(refreshed.scope) ? refreshed.scope.join(" ") : (refreshed.scope || old.scope || null),
-      workspace_id: refreshed.workspace_id ?? old.workspace_id,
-      workspace_name: refreshed.workspace_name ?? old.workspace_name,
-      bot_id: refreshed.bot_id ?? old.bot_id,
-      raw: refreshed
+  // Walks block children depth-first, following pagination, until a limit is hit.
+  private async fetchBlockTree(subject: string | undefined, blockId: string, limits: BlockTreeLimits, cache?: (blockId: string) => CacheOptions | undefined) {
+    let count = 0;
+    let truncated = false;
+    const walk = async (id: string, depth: number): Promise<NotionBlock[]> => {
+      const blocks: NotionBlock[] = [];
+      let cursor: string | undefined;
+      do {
+        const qs = new URLSearchParams({ page_size: "100" });
+        if (cursor) qs.set("start_cursor", cursor);
+        const res = await this.client.request(subject, `blocks/${id}/children?${qs}`, "GET", undefined, cache?.(id));
+        if (!res.ok) throw notionError("readPage", res);
+        for (const b of res.json.results as NotionBlock[]) {
+          if (count >= limits.maxBlocks) { truncated = true; return blocks; }
+          count++;
+          blocks.push(b);
+        }
+        cursor = res.json.has_more ? res.json.next_cursor : undefined;
+      } while (cursor);
+      for (const b of blocks) {
+        // Child pages and databases are rendered as links, not inlined.
+        if (!b.has_children || b.type === "child_page" || b.type === "child_database") continue;
+        if (depth + 1 >= limits.maxDepth) { truncated = true; continue; }
+        if (count >= limits.maxBlocks) { truncated = true; break; }
+        b.children = await walk(b.id, depth + 1);
+      }
+      return blocks;
     };
-    await this.store.upsertToken(rec);
+    const blocks = await walk(blockId, 0);
+    return { blocks, truncated, count };
   }
 
-  private async refresh(refresh_token: string) {
-    const headers: Record<string,string> = {
-      "Accept": "application/json",
-      "Content-Type": "application/json"
+  /**
+   * Runs a paginated POST list endpoint. By default returns Notion's single page as-is;
+   * with fetch_all/max_items, follows cursors up to the ceiling and merges the results,
+   * reporting progress along the way. `truncated` marks a result cut short by the ceiling.
+   */
+  private async list(
+    tool: string,
+    args: { subject?: string; fetch_all?: boolean; max_items?: number },
+    endpoint: string,
+    body: any,
+    extra?: ToolExtra,
+    cache?: CacheOptions,
+    ceiling = MAX_FETCH_ALL_ITEMS
+  ) {
+    if (!args.fetch_all && !args.max_items) {
+      const res = await this.client.request(args.subject, endpoint, "POST", body, cache);
+      if (!res.ok) throw notionError(tool, res);
+      return res.json;
+    }
+    const limit = Math.min(args.max_items ?? ceiling, ceiling);
+    const results: any[] = [];
+    let cursor: string | undefined = body.start_cursor;
+    let hasMore = false;
+    do {
+      const page = { ...body, page_size: Math.min(100, limit - results.length) };
+      if (cursor) page.start_cursor = cursor;
+      const res = await this.client.request(args.subject, endpoint, "POST", page, cache);
+      if (!res.ok) throw notionError(tool, res);
+      results.push(...res.json.results);
+      hasMore = !!res.json.has_more;
+      cursor = hasMore ? res.json.next_cursor : undefined;
+      await reportProgress(extra, results.length, hasMore ? undefined : results.length, `Fetched ${results.length} items`);
+      if (extra?.signal.aborted) break;
+    } while (cursor && results.length < limit);
+    return {
+      object: "list",
+      results,
+      has_more: hasMore,
+      next_cursor: hasMore ? cursor ?? null : null,
+      truncated: hasMore,
+      item_count: results.length
     };
-    let body: any = { grant_type: "refresh_token", refresh_token };
-    if (!this.cfg.usePkce) {
-      headers["Authorization"] = basicAuthHeader(this.cfg.clientId, this.cfg.clientSecret);
+  }
+
+  private async databaseSchema(subject: string | undefined, databaseId: string, cache?: CacheOptions): Promise<DatabaseSchema> {
+    const res = await this.client.request(subject, `databases/${databaseId}`, "GET", undefined, cache);
+    if (!res.ok) throw notionError("describeDatabase", res);
+    return compactSchema(res.json);
+  }
+
+  private cacheFor(tool: string, args: { cache?: "default" | "bypass" }, tags: string[]): CacheOptions | undefined {
+    const ttl = this.cacheTtls[tool];
+    if (!ttl) return undefined;
+    return { ttlMs: ttl * 1000, tags, bypass: args.cache === "bypass" };
+  }
+
+  private async resolvePageProperties(subject: string | undefined, pageId: string, input: Record<string, unknown>) {
+    if (!needsSchema(input)) return input;
+    const page = await this.client.request(subject, `pages/${pageId}`, "GET");
+    if (!page.ok) throw notionError("fetchPage", page);
+    const schema = page.json.parent?.type === "database_id"
+      ? await this.databaseSchema(subject, page.json.parent.database_id)
+      : pageSchema(page.json);
+    return coerceProperties(schema, input);
+  }
+
+  // Appends blocks in request-sized batches, keeping their order; returns the new top-level block ids.
+  private async appendBlocks(subject: string | undefined, parentId: string, blocks: NotionBlock[], after?: string): Promise<string[]> {
+    const ids: string[] = [];
+    for (let i = 0; i < blocks.length; i += MAX_CHILDREN_PER_REQUEST) {
+      const { send, deferred } = splitForRequest(blocks.slice(i, i + MAX_CHILDREN_PER_REQUEST));
+      const body: any = { children: send };
+      if (after) body.after = after;
+      const res = await this.client.request(subject, `blocks/${parentId}/children`, "PATCH", body);
+      if (!res.ok) throw notionError("appendContent", res);
+      const created: NotionBlock[] = res.json.results;
+      ids.push(...created.map(b => b.id));
+      await this.appendDeferred(subject, created, deferred);
+      if (after) after = created[created.length - 1]?.id;
     }
-    const { ok, status, json } = await httpWithRetry("POST", `${NOTION_API}/oauth/token`, headers, body, { retries: 1 });
-    if (!ok) throw new Error(`Notion refresh failed (${status}): ${JSON.stringify(json)}`);
-    return json;
+    return ids;
+  }
+
+  private async appendDeferred(subject: string | undefined, created: string | NotionBlock[], deferred: Map<number, NotionBlock[]>) {
+    if (!deferred.size) return;
+    // A freshly created page has its first-level children listed separately.
+    const blocks = typeof created === "string" ? await this.listChildren(subject, created) : created;
+    for (const [index, children] of deferred) {
+      const parent = blocks[index];
+      if (!parent) throw new Error("appendContent failed: could not locate created block for nested children");
+      await this.appendBlocks(subject, parent.id, children);
+    }
+  }
+
+  private async listChildren(subject: string | undefined, blockId: string): Promise<NotionBlock[]> {
+    const out: NotionBlock[] = [];
+    let cursor: string | undefined;
+    do {
+      const qs = new URLSearchParams({ page_size: "100" });
+      if (cursor) qs.set("start_cursor", cursor);
+      const res = await this.client.request(subject, `blocks/${blockId}/children?${qs}`, "GET");
+      if (!res.ok) throw notionError("listChildren", res);
+      out.push(...res.json.results);
+      cursor = res.json.has_more ? res.json.next_cursor : undefined;
+    } while (cursor);
+    return out;
   }
 }
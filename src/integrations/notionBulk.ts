@@ -0,0 +1,109 @@
+// CSV/JSONL conversion for bulk import into and export out of Notion databases.
+import { compactPropertyValue } from "./notionFormat.js";
+import { DatabaseSchema, READ_ONLY_TYPES } from "./notionProperties.js";
+
+export type Row = Record<string, unknown>;
+
+/**
+ * Parses RFC 4180 CSV: the first record is the header, fields may be quoted ("" escapes a quote)
+ * and contain commas or line breaks. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Row[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (src[i + 1] === '"') field += src[++i];
+      else quoted = false;
+    } else if (c === '"' && field === "") quoted = true;
+    else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      endRecord();
+    } else field += c;
+  }
+  if (quoted) throw new Error("CSV: unterminated quoted field");
+  if (field !== "" || record.length) endRecord();
+
+  const [header, ...rows] = records;
+  if (!header) throw new Error("CSV: missing header row");
+  const columns = header.map(h => h.trim());
+  const dup = columns.find((c, i) => columns.indexOf(c) !== i);
+  if (dup !== undefined) throw new Error(`CSV: duplicate column '${dup}'`);
+  return rows.map((r, n) => {
+    if (r.length > columns.length) throw new Error(`CSV: row ${n + 1} has ${r.length} fields but the header has ${columns.length}`);
+    return Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ""]));
+  });
+}
+
+function csvField(v: unknown): string {
+  const s = v === null || v === undefined ? "" : Array.isArray(v) ? v.map(String).join(", ") : typeof v === "object" ? JSON.stringify(v) : String(v);
+  return /[",\r\n]|^\s|\s$/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(columns: string[], rows: Row[]): string {
+  return [columns, ...rows.map(r => columns.map(c => r[c]))].map(r => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toJsonl(rows: Row[]): string {
+  return rows.map(r => JSON.stringify(r)).join("\n") + (rows.length ? "\n" : "");
+}
+
+// Columns exportDatabase adds before the properties; importRows reads `id` as the page to update.
+export const META_COLUMNS = ["id", "url"];
+
+// A database row as flat values: id, url, then every column in `columns` (missing values as null).
+// People are exported as user ids, which is what importRows accepts for them.
+export function flattenRow(page: any, columns: string[]): Row {
+  const row: Row = { id: page.id, url: page.url ?? null };
+  for (const c of columns) {
+    const p = page.properties?.[c];
+    row[c] = p?.type === "people" ? (p.people || []).map((u: any) => u.id) : compactPropertyValue(p) ?? null;
+  }
+  return row;
+}
+
+// The flat value as compared against an import key: lists are joined, whitespace trimmed.
+export function keyValue(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  return (Array.isArray(v) ? v.map(String).join(", ") : String(v)).trim();
+}
+
+/**
+ * Picks the property values out of one import row. With a mapping only mapped columns are
+ * used (column -> property name); without one each column names its property. Empty CSV
+ * cells leave the property alone; a JSON null clears it. Read-only properties (formulas,
+ * rollups, created_time, ...) are skipped, so an export can be imported again. The `id`
+ * and `url` columns of an export aren't properties unless the database has ones named so;
+ * `id` is returned as the page the row updates.
+ */
+export function mapRow(row: Row, schema: DatabaseSchema, mapping?: Record<string, string>): { pageId?: string; properties: Record<string, unknown> } {
+  const names = Object.keys(schema.properties);
+  const properties: Record<string, unknown> = {};
+  let pageId: string | undefined;
+  for (const [column, value] of Object.entries(row)) {
+    if (META_COLUMNS.includes(column) && !names.includes(column)) {
+      if (column === "id" && typeof value === "string" && value.trim()) pageId = value.trim();
+      continue;
+    }
+    const property = mapping ? mapping[column] : column;
+    if (!property || value === undefined || value === "") continue;
+    const name = names.find(n => n === property) ?? names.find(n => n.toLowerCase() === property.toLowerCase());
+    if (name && READ_ONLY_TYPES.has(schema.properties[name].type)) continue;
+    properties[property] = typeof value === "string" ? value.trim() : value;
+  }
+  return { pageId, properties };
+}
@@ -0,0 +1,101 @@
+import type { HttpResponse, OAuth2Client } from "../core/oauth2Provider.js";
+import { httpWithRetry } from "../utils/http.js";
+import { RequestScheduler } from "../utils/scheduler.js";
+import { TtlCache } from "../utils/ttlCache.js";
+import { logger, recordCacheResult } from "../logger.js";
+import { cacheLookups } from "../metrics.js";
+
+export const NOTION_API = "https://api.notion.com/v1";
+const NOTION_VERSION = "2022-06-28";
+
+export type NotionResponse = HttpResponse;
+
+// Turns a failed API response into a readable error using Notion's own code/message.
+export function notionError(action: string, res: NotionResponse) {
+  const j = res.json || {};
+  const detail = j.message || j.error_description || j.error || JSON.stringify(j);
+  return new Error(`${action} failed (HTTP ${res.status}${j.code ? `, ${j.code}` : ""}): ${detail}`);
+}
+
+async function notionFetch(token: string, endpoint: string, method: string = "GET", data?: any) {
+  const headers: Record<string,string> = {
+    "Authorization": `Bearer ${token}`,
+    "Notion-Version": NOTION_VERSION,
+    "Content-Type": "application/json"
+  };
+  return httpWithRetry(method, `${NOTION_API}/${endpoint}`, headers, data, { retries: 3 });
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  tags: string[]; // Notion ids the response depends on, or "search"
+  bypass?: boolean; // skip the lookup but store the fresh response
+}
+
+// POST endpoints that only read.
+const READ_POST = /^(search|databases\/[^/]+\/query)$/;
+const ID_IN_PATH = /(?:pages|blocks|databases)\/([0-9a-fA-F-]{32,36})/g;
+
+// Notion accepts ids with and without dashes.
+export function normalizeId(id: string) {
+  return id.replace(/-/g, "").toLowerCase();
+}
+
+function parentIds(obj: any): string[] {
+  const p = obj?.parent;
+  return [p?.page_id, p?.database_id, p?.block_id].filter((v): v is string => typeof v === "string");
+}
+
+// Authenticated access to the Notion API for a subject; token handling lives in OAuth2Client.
+// Requests are paced per subject (a Notion workspace) to stay under Notion's rate limit.
+// Reads that pass CacheOptions are cached; every write invalidates what it touched.
+export class NotionClient {
+  private oauth: OAuth2Client;
+  private scheduler: RequestScheduler;
+  private cache: TtlCache<NotionResponse>;
+
+  constructor(oauth: OAuth2Client, scheduler: RequestScheduler, cache: TtlCache<NotionResponse>) {
+    this.oauth = oauth;
+    this.scheduler = scheduler;
+    this.cache = cache;
+  }
+
+  async request(subject: string | undefined, endpoint: string, method: string = "GET", data?: any, cache?: CacheOptions): Promise<NotionResponse> {
+    const s = subject || "default";
+    const key = cache && `${s}\u0000${method}\u0000${endpoint}\u0000${data === undefined ? "" : JSON.stringify(data)}`;
+    if (key && !cache.bypass) {
+      const hit = this.cache.get(key);
+      cacheLookups.inc({ cache: "notion", result: hit ? "hit" : "miss" });
+      recordCacheResult(hit ? "hit" : "miss");
+      // Callers may mutate responses (e.g. attaching block children), so hand out copies.
+      if (hit) return structuredClone(hit);
+    } else if (cache?.bypass) {
+      cacheLookups.inc({ cache: "notion", result: "bypass" });
+      recordCacheResult("bypass");
+    }
+
+    const res = await this.oauth.request(subject, token => this.scheduler.schedule(s, () => notionFetch(token, endpoint, method, data)));
+    if (key && res.ok) {
+      // A listing also depends on what it lists: appending a block's first child flips its
+      // has_children in the parent's listing, and the write only names the block itself.
+      const listed = Array.isArray(res.json?.results) ? res.json.results.map((r: any) => r?.id).filter((id: unknown) => typeof id === "string") : [];
+      this.cache.set(key, structuredClone(res), cache.ttlMs, [...cache.tags, ...listed].map(t => `${s}:${normalizeId(t)}`));
+    }
+    if (method !== "GET" && !READ_POST.test(endpoint)) this.invalidateAfterWrite(s, endpoint, data, res);
+    return res;
+  }
+
+  // A write can change the object itself, its parent's listings and any search results.
+  private invalidateAfterWrite(subject: string, endpoint: string, data: any, res: NotionResponse) {
+    const ids = [...endpoint.matchAll(ID_IN_PATH)].map(m => m[1]);
+    ids.push(...parentIds(data), ...parentIds(res.json));
+    if (typeof res.json?.id === "string") ids.push(res.json.id);
+    const n = this.invalidate(subject, ids);
+    if (n) logger.debug({ endpoint, invalidated: n }, "Invalidated cached Notion reads");
+  }
+
+  // Drops cached reads of these objects and the subject's search results.
+  invalidate(subject: string, ids: string[]) {
+    return this.cache.invalidate(["search", ...ids].map(id => `${subject}:${normalizeId(id)}`));
+  }
+}
@@ -0,0 +1,169 @@
+// Compact and Markdown views of Notion API objects, plus the output schemas tools declare.
+import { z } from "zod";
+import { structuredResult, OutputFormat } from "../core/provider.js";
+import { notionUrl, pageTitle, plainText, richTextToMarkdown } from "./notionMarkdown.js";
+
+// Output schemas are loose envelopes so that both raw and compact shapes validate.
+export const objectOutput = z.object({ id: z.string() }).passthrough();
+export const listOutput = z.object({
+  results: z.array(z.object({}).passthrough()),
+  has_more: z.boolean(),
+  next_cursor: z.string().nullable()
+}).passthrough();
+
+export function compactPropertyValue(p: any): unknown {
+  if (!p) return null;
+  const v = p[p.type];
+  switch (p.type) {
+    case "title":
+    case "rich_text":
+      return plainText(v);
+    case "select":
+    case "status":
+      return v?.name ?? null;
+    case "multi_select":
+      return (v || []).map((o: any) => o.name);
+    case "date":
+      return v ? (v.end ? `${v.start}/${v.end}` : v.start) : null;
+    case "people":
+      return (v || []).map((u: any) => u.name ?? u.id);
+    case "relation":
+      return (v || []).map((r: any) => r.id);
+    case "files":
+      return (v || []).map((f: any) => f.external?.url ?? f.file?.url ?? f.name);
+    case "created_by":
+    case "last_edited_by":
+      return v?.name ?? v?.id ?? null;
+    case "formula":
+      return v ? v[v.type] ?? null : null;
+    case "rollup":
+      if (!v) return null;
+      return v.type === "array" ? v.array.map(compactPropertyValue) : v[v.type] ?? null;
+    case "unique_id":
+      return v ? (v.prefix ? `${v.prefix}-${v.number}` : v.number) : null;
+    case "verification":
+      return v?.state ?? null;
+    default:
+      return v ?? null;
+  }
+}
+
+function parentId(parent: any): string | null {
+  if (!parent) return null;
+  return parent[parent.type] === true ? parent.type : parent[parent.type] ?? null;
+}
+
+export function compactPage(page: any) {
+  const properties: Record<string, unknown> = {};
+  for (const [name, p] of Object.entries<any>(page.properties || {})) {
+    const v = compactPropertyValue(p);
+    if (v === null || v === "" || (Array.isArray(v) && !v.length)) continue;
+    properties[name] = v;
+  }
+  const out: Record<string, unknown> = {
+    object: "page",
+    id: page.id,
+    url: page.url ?? notionUrl(page.id),
+    title: pageTitle(page),
+    parent: parentId(page.parent),
+    last_edited_time: page.last_edited_time,
+    properties
+  };
+  if (page.archived) out.archived = true;
+  return out;
+}
+
+export function compactDatabase(db: any) {
+  return {
+    object: "database",
+    id: db.id,
+    url: db.url ?? notionUrl(db.id),
+    title: plainText(db.title) || "Untitled",
+    parent: parentId(db.parent),
+    last_edited_time: db.last_edited_time
+  };
+}
+
+export function compactBlock(b: any) {
+  const data = b[b.type] || {};
+  const out: Record<string, unknown> = { object: "block", id: b.id, type: b.type };
+  if (data.rich_text) out.text = plainText(data.rich_text);
+  if (b.type === "to_do") out.checked = !!data.checked;
+  if (b.type === "child_page" || b.type === "child_database") out.title = data.title;
+  if (b.has_children) out.has_children = true;
+  if (b.archived) out.archived = true;
+  return out;
+}
+
+export function compactUser(u: any) {
+  const out: Record<string, unknown> = { object: "user", id: u.id, name: u.name ?? null, type: u.type };
+  if (u.person?.email) out.email = u.person.email;
+  if (u.bot?.workspace_name) out.workspace_name = u.bot.workspace_name;
+  return out;
+}
+
+export function compactObject(o: any): Record<string, unknown> {
+  switch (o?.object) {
+    case "page": return compactPage(o);
+    case "database": return compactDatabase(o);
+    case "block": return compactBlock(o);
+    case "user": return compactUser(o);
+    case "list": return compactList(o);
+    default: return o;
+  }
+}
+
+export function compactList(list: any) {
+  const out: Record<string, unknown> = {
+    results: (list.results || []).map(compactObject),
+    has_more: !!list.has_more,
+    next_cursor: list.next_cursor ?? null
+  };
+  if (list.truncated !== undefined) out.truncated = list.truncated;
+  return out;
+}
+
+function formatValue(v: unknown): string {
+  if (Array.isArray(v)) return v.map(formatValue).join(", ");
+  if (v && typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+function linkLine(o: any): string {
+  const c = compactObject(o) as any;
+  const label = c.title ?? c.text ?? c.name ?? c.id;
+  return c.url ? `[${label}](${c.url})` : `${label} (${c.id})`;
+}
+
+export function objectToMarkdown(o: any): string {
+  if (o?.object === "list") {
+    const lines = (o.results || []).map((r: any) => {
+      const props = r.object === "page" ? Object.entries(compactPage(r).properties as Record<string, unknown>) : [];
+      const detail = props.filter(([, v]) => typeof v !== "object" || Array.isArray(v)).slice(0, 6).map(([k, v]) => `${k}: ${formatValue(v)}`).join("; ");
+      return `- ${linkLine(r)}${detail ? ` — ${detail}` : ""}`;
+    });
+    if (!lines.length) lines.push("_No results._");
+    if (o.has_more) lines.push(`\n_More results available (next_cursor: ${o.next_cursor})._`);
+    return lines.join("\n");
+  }
+  if (o?.object === "page") {
+    const c = compactPage(o);
+    const rows = Object.entries(c.properties as Record<string, unknown>).map(([k, v]) => `- **${k}:** ${formatValue(v)}`);
+    return [`# ${c.title}`, "", `${c.url}`, ...(rows.length ? ["", ...rows] : [])].join("\n");
+  }
+  if (o?.object === "block") {
+    return richTextToMarkdown(o[o.type]?.rich_text) || linkLine(o);
+  }
+  if (o?.object === "database") return `# ${compactDatabase(o).title}\n\n${compactDatabase(o).url}`;
+  if (o?.object === "user") {
+    const u = compactUser(o);
+    return `**${u.name ?? u.id}** (${u.type})${u.workspace_name ? ` — workspace: ${u.workspace_name}` : ""}`;
+  }
+  return "```json\n" + JSON.stringify(o, null, 2) + "\n```";
+}
+
+// Renders a Notion API response in the caller's chosen format.
+export function formatNotion(format: OutputFormat, raw: any) {
+  if (format === "raw") return structuredResult(raw, JSON.stringify(raw, null, 2));
+  return structuredResult(compactObject(raw), format === "markdown" ? objectToMarkdown(raw) : undefined);
+}
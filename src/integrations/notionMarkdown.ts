@@ -0,0 +1,371 @@
+// Conversion between Notion block trees and Markdown, in both directions.
+
+export interface NotionBlock {
+  id: string;
+  type: string;
+  has_children?: boolean;
+  children?: NotionBlock[];
+  [key: string]: any;
+}
+
+export function notionUrl(id: string) {
+  return `https://www.notion.so/${id.replace(/-/g, "")}`;
+}
+
+export function plainText(rt: any[] | undefined): string {
+  return (rt || []).map(t => t.plain_text ?? t.text?.content ?? "").join("");
+}
+
+export function pageTitle(page: any): string {
+  for (const prop of Object.values<any>(page?.properties || {})) {
+    if (prop?.type === "title") return plainText(prop.title);
+  }
+  return plainText(page?.title) || "Untitled";
+}
+
+export function richTextToMarkdown(rt: any[] | undefined): string {
+  return (rt || []).map(t => {
+    if (t.type === "equation") return `$${t.equation.expression}$`;
+    let s: string = t.plain_text ?? t.text?.content ?? "";
+    if (!s) return "";
+    const a = t.annotations || {};
+    if (a.code) s = "`" + s + "`";
+    if (a.bold) s = `**${s}**`;
+    if (a.italic) s = `_${s}_`;
+    if (a.strikethrough) s = `~~${s}~~`;
+    const href = t.href ?? t.text?.link?.url;
+    if (href) s = `[${s}](${href})`;
+    return s;
+  }).join("");
+}
+
+function indent(text: string, prefix: string) {
+  return text.split("\n").map(l => (l ? prefix + l : l)).join("\n");
+}
+
+function fileUrl(f: any): string {
+  return f?.type === "external" ? f.external?.url : f?.file?.url;
+}
+
+function renderTable(block: NotionBlock): string {
+  const rows = (block.children || []).filter(r => r.type === "table_row");
+  if (!rows.length) return "";
+  const cells = rows.map(r => (r.table_row.cells as any[][]).map(c => richTextToMarkdown(c).replace(/\|/g, "\\|").replace(/\n/g, " ")));
+  const width = Math.max(...cells.map(r => r.length));
+  const line = (r: string[]) => "| " + Array.from({ length: width }, (_, i) => r[i] ?? "").join(" | ") + " |";
+  const out = [line(cells[0]), line(Array(width).fill("---")), ...cells.slice(1).map(line)];
+  return out.join("\n");
+}
+
+function renderBlock(block: NotionBlock, ordinal: number): string {
+  const data = block[block.type] || {};
+  const text = richTextToMarkdown(data.rich_text);
+  const children = block.children?.length ? blocksToMarkdown(block.children) : "";
+
+  switch (block.type) {
+    case "paragraph":
+      return children ? `${text}\n\n${children}` : text;
+    case "heading_1":
+    case "heading_2":
+    case "heading_3": {
+      const h = "#".repeat(Number(block.type.slice(-1))) + " " + text;
+      return children ? `${h}\n\n${children}` : h;
+    }
+    case "bulleted_list_item":
+      return `- ${text}` + (children ? "\n" + indent(children, "  ") : "");
+    case "numbered_list_item":
+      return `${ordinal}. ${text}` + (children ? "\n" + indent(children, "   ") : "");
+    case "to_do":
+      return `- [${data.checked ? "x" : " "}] ${text}` + (children ? "\n" + indent(children, "  ") : "");
+    case "code": {
+      const lang = data.language && data.language !== "plain text" ? data.language : "";
+      return "```" + lang + "\n" + plainText(data.rich_text) + "\n```";
+    }
+    case "quote":
+      return indent(children ? `${text}\n\n${children}` : text, "> ").replace(/^$/gm, ">");
+    case "callout": {
+      const icon = data.icon?.type === "emoji" ? data.icon.emoji + " " : "";
+      return indent(children ? `${icon}${text}\n\n${children}` : icon + text, "> ").replace(/^$/gm, ">");
+    }
+    case "toggle":
+      return `<details>\n<summary>${text}</summary>\n\n${children}\n\n</details>`;
+    case "table":
+      return renderTable(block);
+    case "divider":
+      return "---";
+    case "equation":
+      return `$$\n${data.expression}\n$$`;
+    case "child_page":
+      return `[${data.title || "Untitled"}](${notionUrl(block.id)})`;
+    case "child_database":
+      return `[${data.title || "Untitled database"}](${notionUrl(block.id)})`;
+    case "link_to_page": {
+      const id = data.page_id || data.database_id;
+      return id ? `[Linked page](${notionUrl(id)})` : "";
+    }
+    case "bookmark":
+    case "embed":
+    case "link_preview":
+      return data.url ? `[${richTextToMarkdown(data.caption) || data.url}](${data.url})` : "";
+    case "image": {
+      const url = fileUrl(data);
+      return url ? `![${plainText(data.caption)}](${url})` : "";
+    }
+    case "file":
+    case "pdf":
+    case "video":
+    case "audio": {
+      const url = fileUrl(data);
+      return url ? `[${plainText(data.caption) || data.name || block.type}](${url})` : "";
+    }
+    case "column_list":
+    case "column":
+    case "synced_block":
+      return children;
+    default:
+      return children;
+  }
+}
+
+export function blocksToMarkdown(blocks: NotionBlock[]): string {
+  const parts: string[] = [];
+  let ordinal = 0;
+  let prevType = "";
+  for (const b of blocks) {
+    ordinal = b.type === "numbered_list_item" ? ordinal + 1 : 0;
+    const md = renderBlock(b, ordinal);
+    if (!md) continue;
+    // Consecutive list items stay tight; everything else is separated by a blank line.
+    const isList = /^(bulleted_list_item|numbered_list_item|to_do)$/.test(b.type);
+    const sep = !parts.length ? "" : (isList && prevType === b.type ? "\n" : "\n\n");
+    parts.push(sep + md);
+    prevType = b.type;
+  }
+  return parts.join("");
+}
+
+// ---- Markdown -> Notion blocks ----
+
+export const MAX_RICH_TEXT_LENGTH = 2000;
+export const MAX_RICH_TEXT_ITEMS = 100;
+
+const NOTION_LANGUAGES = new Set([
+  "abap", "arduino", "bash", "basic", "c", "clojure", "coffeescript", "c++", "c#", "css", "dart", "diff",
+  "docker", "elixir", "elm", "erlang", "flow", "fortran", "f#", "gherkin", "glsl", "go", "graphql", "groovy",
+  "haskell", "html", "java", "javascript", "json", "julia", "kotlin", "latex", "less", "lisp", "livescript",
+  "lua", "makefile", "markdown", "markup", "matlab", "mermaid", "nix", "objective-c", "ocaml", "pascal",
+  "perl", "php", "plain text", "powershell", "prolog", "protobuf", "python", "r", "reason", "ruby", "rust",
+  "sass", "scala", "scheme", "scss", "shell", "sql", "swift", "typescript", "vb.net", "verilog", "vhdl",
+  "visual basic", "webassembly", "xml", "yaml"
+]);
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: "javascript", jsx: "javascript", ts: "typescript", tsx: "typescript", py: "python", rb: "ruby",
+  sh: "shell", zsh: "shell", console: "shell", yml: "yaml", md: "markdown", cpp: "c++", cs: "c#",
+  csharp: "c#", dockerfile: "docker", golang: "go", kt: "kotlin", rs: "rust", ps1: "powershell",
+  text: "plain text", txt: "plain text", plaintext: "plain text", objc: "objective-c", tex: "latex"
+};
+
+export function notionLanguage(lang: string) {
+  const l = lang.toLowerCase();
+  const mapped = LANGUAGE_ALIASES[l] ?? l;
+  return NOTION_LANGUAGES.has(mapped) ? mapped : "plain text";
+}
+
+interface Annotations {
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+}
+
+interface Segment {
+  text: string;
+  annotations: Annotations;
+  link?: string;
+}
+
+const INLINE = /(`+)([^`]+?)\1|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+function parseInline(text: string, annotations: Annotations = {}, link?: string): Segment[] {
+  const out: Segment[] = [];
+  let rest = text;
+  while (rest) {
+    const m = INLINE.exec(rest);
+    if (!m) { out.push({ text: rest, annotations, link }); break; }
+    if (m.index > 0) out.push({ text: rest.slice(0, m.index), annotations, link });
+    if (m[2] !== undefined) out.push({ text: m[2], annotations: { ...annotations, code: true }, link });
+    else if (m[3] !== undefined || m[4] !== undefined) out.push(...parseInline(m[3] ?? m[4], { ...annotations, bold: true }, link));
+    else if (m[5] !== undefined) out.push(...parseInline(m[5], { ...annotations, strikethrough: true }, link));
+    else if (m[6] !== undefined || m[7] !== undefined) out.push(...parseInline(m[6] ?? m[7], { ...annotations, italic: true }, link));
+    else out.push(...parseInline(m[8], annotations, m[9]));
+    rest = rest.slice(m.index + m[0].length);
+  }
+  return out;
+}
+
+// Builds a rich_text array, splitting any run longer than Notion's per-item limit.
+function toRichText(segments: Segment[]): any[] {
+  const out: any[] = [];
+  for (const seg of segments) {
+    for (let i = 0; i < seg.text.length; i += MAX_RICH_TEXT_LENGTH) {
+      const item: any = { type: "text", text: { content: seg.text.slice(i, i + MAX_RICH_TEXT_LENGTH) } };
+      if (seg.link) item.text.link = { url: seg.link };
+      if (Object.keys(seg.annotations).length) item.annotations = seg.annotations;
+      out.push(item);
+    }
+  }
+  return out;
+}
+
+export function markdownToRichText(text: string): any[] {
+  return toRichText(parseInline(text));
+}
+
+function block(type: string, data: any): NotionBlock {
+  // Request payloads carry no id until Notion creates the block.
+  return { object: "block", type, [type]: data } as any;
+}
+
+function textBlock(type: string, text: string, extra: any = {}): NotionBlock {
+  return block(type, { rich_text: markdownToRichText(text), ...extra });
+}
+
+// A block takes at most MAX_RICH_TEXT_ITEMS rich_text items; the rest continues in blocks of the
+// same type, the last of which keeps the children.
+function splitOversized(blocks: NotionBlock[]): NotionBlock[] {
+  return blocks.flatMap(b => {
+    const { children, ...data } = b[b.type];
+    const kids = children ? splitOversized(children) : undefined;
+    const rt: any[] | undefined = data.rich_text;
+    const parts = rt && rt.length > MAX_RICH_TEXT_ITEMS
+      ? Array.from({ length: Math.ceil(rt.length / MAX_RICH_TEXT_ITEMS) }, (_, n) => block(b.type, { ...data, rich_text: rt.slice(n * MAX_RICH_TEXT_ITEMS, (n + 1) * MAX_RICH_TEXT_ITEMS) }))
+      : [block(b.type, data)];
+    if (kids) parts[parts.length - 1][b.type].children = kids;
+    return parts;
+  });
+}
+
+function splitRow(line: string): string[] {
+  return line.trim().replace(/^\|/, "").replace(/\|$/, "").split(/(?<!\\)\|/).map(c => c.trim().replace(/\\\|/g, "|"));
+}
+
+const FENCE = /^\s*(```|~~~)\s*([\w#+.-]*)/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * Converts Markdown into Notion block objects ready to be sent as `children`.
+ * Nested list items are attached via `<type>.children`. Text too long for one block
+ * continues in the next; chunking to Notion's per-request limits is left to the caller.
+ */
+export function markdownToBlocks(markdown: string): NotionBlock[] {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: NotionBlock[] = [];
+  const listStack: { indent: number; block: NotionBlock }[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push(textBlock("paragraph", paragraph.join(" ")));
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      listStack.length = 0;
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+      i++;
+      blocks.push(block("code", {
+        rich_text: toRichText([{ text: body.join("\n"), annotations: {} }]),
+        language: notionLanguage(fence[2] || "plain text")
+      }));
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const indent = item[1].replace(/\t/g, "    ").length;
+      const type = item[3] !== undefined ? "to_do" : /\d/.test(item[2]) ? "numbered_list_item" : "bulleted_list_item";
+      const b = textBlock(type, item[4], type === "to_do" ? { checked: item[3].toLowerCase() === "x" } : {});
+      while (listStack.length && listStack[listStack.length - 1].indent >= indent) listStack.pop();
+      const parent = listStack[listStack.length - 1]?.block;
+      if (parent) (parent[parent.type].children ??= []).push(b);
+      else blocks.push(b);
+      listStack.push({ indent, block: b });
+      i++;
+      continue;
+    }
+
+    // Indented continuation of the current list item.
+    if (listStack.length && /^\s+\S/.test(line)) {
+      const cur = listStack[listStack.length - 1].block;
+      cur[cur.type].rich_text.push(...markdownToRichText(" " + line.trim()));
+      i++;
+      continue;
+    }
+    listStack.length = 0;
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push(textBlock(`heading_${Math.min(heading[1].length, 3)}`, heading[2]));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push(block("divider", {}));
+      i++;
+      continue;
+    }
+
+    if (line.trimStart().startsWith(">")) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trimStart().startsWith(">")) {
+        quoted.push(lines[i++].trimStart().replace(/^>\s?/, ""));
+      }
+      blocks.push(textBlock("quote", quoted.join("\n")));
+      continue;
+    }
+
+    if (line.includes("|") && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes("-")) {
+      flushParagraph();
+      const rows = [splitRow(line)];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) rows.push(splitRow(lines[i++]));
+      const width = Math.max(...rows.map(r => r.length));
+      blocks.push(block("table", {
+        table_width: width,
+        has_column_header: true,
+        has_row_header: false,
+        children: rows.map(r => block("table_row", {
+          cells: Array.from({ length: width }, (_, c) => markdownToRichText(r[c] ?? ""))
+        }))
+      }));
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+  flushParagraph();
+  return splitOversized(blocks);
+}
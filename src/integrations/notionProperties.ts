@@ -0,0 +1,152 @@
+// Compact database schemas and coercion of flat property values into Notion's nested shape.
+import { z } from "zod";
+import { markdownToRichText, plainText } from "./notionMarkdown.js";
+
+export interface PropertySchema {
+  type: string;
+  options?: string[];
+  database_id?: string;
+}
+
+export interface DatabaseSchema {
+  id: string;
+  title: string;
+  url?: string;
+  properties: Record<string, PropertySchema>;
+}
+
+export const READ_ONLY_TYPES = new Set([
+  "formula", "rollup", "created_time", "created_by", "last_edited_time", "last_edited_by", "unique_id", "verification", "button"
+]);
+
+export const propertyInput = z.union([
+  z.string(), z.number(), z.boolean(), z.null(), z.array(z.string()), z.object({}).passthrough()
+]);
+
+export const propertyInputs = z.record(z.string(), propertyInput)
+  .describe("Property values keyed by name. Flat values are coerced using the database schema, e.g. { \"Status\": \"Done\", \"Due\": \"2026-11-01\", \"Tags\": [\"a\",\"b\"] }; Notion-shaped values ({ \"select\": { ... } }) pass through unchanged.");
+
+export function compactSchema(db: any): DatabaseSchema {
+  const properties: Record<string, PropertySchema> = {};
+  for (const [name, p] of Object.entries<any>(db.properties || {})) {
+    const s: PropertySchema = { type: p.type };
+    if (p.type === "select" || p.type === "multi_select" || p.type === "status") {
+      s.options = (p[p.type]?.options || []).map((o: any) => o.name);
+    }
+    if (p.type === "relation") s.database_id = p.relation?.database_id;
+    properties[name] = s;
+  }
+  return { id: db.id, title: plainText(db.title) || "Untitled", url: db.url, properties };
+}
+
+// Schema for a page that isn't a database row: it only has its title property.
+export function pageSchema(page: any): DatabaseSchema {
+  const properties: Record<string, PropertySchema> = {};
+  for (const [name, p] of Object.entries<any>(page?.properties || {})) properties[name] = { type: p.type };
+  if (!Object.keys(properties).length) properties.title = { type: "title" };
+  return { id: page?.id ?? "", title: "", properties };
+}
+
+// True when a value is already in Notion's `{ <type>: ... }` form for the given type.
+function isNotionShaped(value: unknown, type: string) {
+  return !!value && typeof value === "object" && !Array.isArray(value) && type in (value as object);
+}
+
+const WRITABLE_TYPES = [
+  "title", "rich_text", "number", "select", "multi_select", "status", "date", "people", "files",
+  "checkbox", "url", "email", "phone_number", "relation"
+];
+
+// Schema lookups cost a request; skip them when every value is already Notion-shaped.
+export function needsSchema(input: Record<string, unknown>) {
+  return Object.values(input).some(v => !WRITABLE_TYPES.some(t => isNotionShaped(v, t)));
+}
+
+function asList(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(String);
+  return String(v).split(",").map(s => s.trim()).filter(Boolean);
+}
+
+function pickOption(name: string, schema: PropertySchema, value: string) {
+  const options = schema.options || [];
+  const hit = options.find(o => o === value) ?? options.find(o => o.toLowerCase() === value.toLowerCase());
+  if (hit === undefined) {
+    throw new Error(`Property '${name}': '${value}' is not a valid ${schema.type} option. Valid options: ${options.join(", ") || "(none)"}`);
+  }
+  return { name: hit };
+}
+
+function coerceValue(name: string, schema: PropertySchema, value: unknown): any {
+  const { type } = schema;
+  if (READ_ONLY_TYPES.has(type)) throw new Error(`Property '${name}' is a read-only ${type} property`);
+  if (isNotionShaped(value, type)) return value;
+
+  switch (type) {
+    case "title":
+    case "rich_text":
+      return { [type]: value === null ? [] : markdownToRichText(String(value)) };
+    case "number": {
+      if (value === null) return { number: null };
+      const n = typeof value === "number" ? value : Number(value);
+      if (typeof value === "boolean" || Number.isNaN(n)) throw new Error(`Property '${name}': expected a number, got ${JSON.stringify(value)}`);
+      return { number: n };
+    }
+    case "checkbox": {
+      if (typeof value === "boolean") return { checkbox: value };
+      const s = String(value).toLowerCase();
+      if (["true", "yes", "1", "x"].includes(s)) return { checkbox: true };
+      if (["false", "no", "0", ""].includes(s)) return { checkbox: false };
+      throw new Error(`Property '${name}': expected true/false, got ${JSON.stringify(value)}`);
+    }
+    case "select":
+    case "status":
+      return { [type]: value === null ? null : pickOption(name, schema, String(value)) };
+    case "multi_select":
+      return { multi_select: value === null ? [] : asList(value).map(v => pickOption(name, schema, v)) };
+    case "date": {
+      if (value === null) return { date: null };
+      if (typeof value === "object" && !Array.isArray(value) && "start" in (value as any)) return { date: value };
+      const [start, end] = String(value).split("/").map(s => s.trim());
+      if (Number.isNaN(Date.parse(start)) || (end && Number.isNaN(Date.parse(end)))) {
+        throw new Error(`Property '${name}': expected an ISO date like 2026-11-01 (or start/end), got ${JSON.stringify(value)}`);
+      }
+      return { date: end ? { start, end } : { start } };
+    }
+    case "url":
+    case "email":
+    case "phone_number":
+      return { [type]: value === null ? null : String(value) };
+    case "people":
+      return { people: value === null ? [] : asList(value).map(id => ({ id })) };
+    case "relation":
+      return { relation: value === null ? [] : asList(value).map(id => ({ id })) };
+    case "files":
+      return { files: value === null ? [] : asList(value).map(url => ({ type: "external", name: url.split("/").pop() || url, external: { url } })) };
+    default:
+      throw new Error(`Property '${name}': flat values are not supported for ${type} properties; pass the Notion property object instead`);
+  }
+}
+
+/**
+ * Converts flat property input into Notion property values, validated against `schema`.
+ * All problems are collected so the caller sees every bad property at once.
+ */
+export function coerceProperties(schema: DatabaseSchema, input: Record<string, unknown>) {
+  const out: Record<string, any> = {};
+  const errors: string[] = [];
+  const names = Object.keys(schema.properties);
+  for (const [key, value] of Object.entries(input)) {
+    const name = names.find(n => n === key) ?? names.find(n => n.toLowerCase() === key.toLowerCase());
+    if (!name) {
+      errors.push(`Unknown property '${key}'. Valid properties: ${names.join(", ")}`);
+      continue;
+    }
+    try {
+      out[name] = coerceValue(name, schema.properties[name], value);
+    } catch (e: any) {
+      errors.push(e.message);
+    }
+  }
+  if (errors.length) throw new Error(errors.join("\n"));
+  return out;
+}
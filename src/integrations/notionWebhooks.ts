@@ -0,0 +1,53 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { ResourceChanges } from "../core/provider.js";
+import type { ProviderEvent } from "../storage/eventStore.js";
+import { normalizeId } from "./notionClient.js";
+
+// Event types that add, remove or re-parent pages and databases, changing what resources/list returns.
+const LIST_CHANGING = /\.(created|deleted|undeleted|moved)$/;
+
+// Notion signs the raw body with the subscription's verification token: `X-Notion-Signature: sha256=<hex>`.
+export function verifyNotionSignature(verificationToken: string, rawBody: Buffer, header: string | undefined) {
+  if (!header?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", verificationToken).update(rawBody).digest("hex")}`);
+  const given = Buffer.from(header);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Flattens a webhook payload into an event log entry for `subject`.
+export function notionEvent(payload: any, subject: string): ProviderEvent {
+  return {
+    id: String(payload.id),
+    provider: "notion",
+    subject,
+    type: String(payload.type),
+    entity_id: payload.entity?.id ?? null,
+    entity_type: payload.entity?.type ?? null,
+    // Comment events name their page in data.page_id; their parent may be a block.
+    parent_id: payload.data?.page_id ?? payload.data?.parent?.id ?? null,
+    occurred_at: payload.timestamp ?? new Date().toISOString(),
+    data: payload
+  };
+}
+
+// Both id spellings, since clients may subscribe with either.
+function uris(kind: "page" | "database", id: string) {
+  return [...new Set([`notion://${kind}/${id}`, `notion://${kind}/${normalizeId(id)}`])];
+}
+
+export function notionResourceChanges(event: ProviderEvent): ResourceChanges {
+  const out: string[] = [];
+  const parentType = event.data?.data?.parent?.type;
+  if (event.entity_id && (event.entity_type === "page" || event.entity_type === "database")) {
+    out.push(...uris(event.entity_type, event.entity_id));
+  }
+  // A comment changes the page it's on; a page changes the database (rows) or page (links) holding it.
+  if (event.parent_id && event.entity_type === "comment") out.push(...uris("page", event.parent_id));
+  else if (event.parent_id && (parentType === "database" || parentType === "page")) out.push(...uris(parentType, event.parent_id));
+  return { uris: out, listChanged: LIST_CHANGING.test(event.type) };
+}
+
+// Ids whose cached reads an event makes stale.
+export function notionEventIds(event: ProviderEvent) {
+  return [event.entity_id, event.parent_id].filter((id): id is string => !!id);
+}
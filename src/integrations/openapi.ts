@@ -0,0 +1,224 @@
+import { readFileSync } from "node:fs";
+import { dirname, extname, resolve } from "node:path";
+import YAML from "yaml";
+import { z, ZodTypeAny } from "zod";
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { TokenStore } from "../storage/tokenStore.js";
+import type { UsageStore } from "../storage/usageStore.js";
+import { OAuth2Provider, type HttpResponse } from "../core/oauth2Provider.js";
+import { Provider, structuredResult, type ProviderHealth } from "../core/provider.js";
+import { globMatch } from "../core/policy.js";
+import { httpWithRetry } from "../utils/http.js";
+import { deref, schemaToZod } from "./openapiSchema.js";
+
+const METHODS = ["get", "put", "post", "delete", "patch", "head", "options"] as const;
+// MCP tool names: letters, digits, `_`, `-`, `.`; the provider name and a dot take part of the 64.
+const MAX_TOOL_NAME = 48;
+
+export const openApiAuthSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  // Secrets come from the environment so they stay out of the config file.
+  z.object({ type: z.literal("bearer"), token_env: z.string() }),
+  z.object({ type: z.literal("header"), name: z.string(), value_env: z.string() }),
+  // Uses the subject's stored OAuth token for `provider` (defaults to this provider's name),
+  // refreshed by that provider when it is loaded.
+  z.object({ type: z.literal("token_store"), provider: z.string().optional() })
+]);
+
+export const openApiProviderSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]+$/, "letters, digits, _ and - only"),
+  spec: z.string(), // path to an OpenAPI 3 JSON/YAML file, relative to the config file
+  base_url: z.string().url().optional(), // defaults to the spec's first server
+  include: z.array(z.string()).optional(), // globs on operationId or "METHOD /path"
+  exclude: z.array(z.string()).optional(),
+  tool_prefix: z.string().default(""),
+  headers: z.record(z.string()).default({}),
+  auth: openApiAuthSchema.default({ type: "none" })
+});
+export type OpenApiProviderConfig = z.infer<typeof openApiProviderSchema>;
+
+interface Operation {
+  toolName: string;
+  method: string;
+  path: string;
+  // input field -> where it goes in the request
+  params: { field: string, name: string, in: "path" | "query" | "header" }[];
+  hasBody: boolean;
+}
+
+function sanitize(s: string) {
+  return s.replace(/[^a-zA-Z0-9_-]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function operationName(method: string, path: string, op: any) {
+  return sanitize(op.operationId || `${method}_${path.replace(/[{}]/g, "")}`);
+}
+
+function annotationsFor(method: string): ToolAnnotations {
+  if (method === "get" || method === "head" || method === "options") return { readOnlyHint: true };
+  return { readOnlyHint: false, destructiveHint: method === "delete", idempotentHint: method !== "post" && method !== "patch" };
+}
+
+function serverUrl(doc: any) {
+  const server = doc.servers?.[0];
+  if (!server?.url) return undefined;
+  return String(server.url).replace(/\{(\w+)\}/g, (_m: string, v: string) => server.variables?.[v]?.default ?? "");
+}
+
+function loadSpec(path: string) {
+  const text = readFileSync(path, "utf8");
+  const doc = extname(path) === ".json" ? JSON.parse(text) : YAML.parse(text);
+  if (!doc || typeof doc !== "object" || !String(doc.openapi || "").startsWith("3.")) {
+    throw new Error(`${path} is not an OpenAPI 3 document`);
+  }
+  return doc;
+}
+
+/**
+ * Exposes the operations of an OpenAPI 3 spec as tools, one per operation. Inputs are built
+ * from path/query/header parameters plus `body` for JSON request bodies.
+ */
+export class OpenApiProvider extends Provider {
+  private cfg: OpenApiProviderConfig;
+  private store: TokenStore;
+  private providers?: (name: string) => Provider | undefined;
+  private baseUrl: string;
+
+  constructor(cfg: OpenApiProviderConfig, specPath: string, store: TokenStore, usage?: UsageStore, providers?: (name: string) => Provider | undefined) {
+    super(cfg.name, usage);
+    this.cfg = cfg;
+    this.store = store;
+    this.providers = providers;
+    const doc = loadSpec(specPath);
+    const base = cfg.base_url ?? serverUrl(doc);
+    if (!base || !/^https?:\/\//.test(base)) throw new Error(`OpenAPI provider '${cfg.name}' needs base_url (spec has no absolute server URL)`);
+    this.baseUrl = base.replace(/\/+$/, "");
+
+    const used = new Set<string>();
+    for (const [path, item] of Object.entries<any>(doc.paths ?? {})) {
+      for (const method of METHODS) {
+        const op = item?.[method];
+        if (!op || !this.selected(method, path, op)) continue;
+        const base = (cfg.tool_prefix + operationName(method, path, op)).slice(0, MAX_TOOL_NAME);
+        let toolName = base;
+        for (let i = 2; used.has(toolName); i++) toolName = `${base.slice(0, MAX_TOOL_NAME - String(i).length - 1)}_${i}`;
+        used.add(toolName);
+        this.addOperation(doc, toolName, method, path, [...(item.parameters ?? []), ...(op.parameters ?? [])], op);
+      }
+    }
+  }
+
+  async health(): Promise<ProviderHealth> {
+    return { ok: this.tools.length > 0, detail: `${this.tools.length} operations from ${this.baseUrl}` };
+  }
+
+  private selected(method: string, path: string, op: any) {
+    const keys = [op.operationId, `${method.toUpperCase()} ${path}`].filter(Boolean) as string[];
+    const matches = (globs?: string[]) => !!globs?.some(g => keys.some(k => globMatch(g, k)));
+    if (this.cfg.include?.length && !matches(this.cfg.include)) return false;
+    return !matches(this.cfg.exclude);
+  }
+
+  private addOperation(doc: any, toolName: string, method: string, path: string, rawParams: any[], op: any) {
+    const shape: Record<string, ZodTypeAny> = { subject: z.string().optional() };
+    const operation: Operation = { toolName, method, path, params: [], hasBody: false };
+
+    const body = deref(doc, op.requestBody);
+    const json = body?.content?.["application/json"] ?? Object.entries<any>(body?.content ?? {}).find(([type]) => type.endsWith("+json"))?.[1];
+
+    // Operation-level parameters override path-level ones with the same name and location.
+    // Parameters clashing with `subject`, `body` or each other get their location as a prefix.
+    const params = new Map<string, any>();
+    for (const p of rawParams.map(p => deref(doc, p))) params.set(`${p.in}:${p.name}`, p);
+    for (const p of params.values()) {
+      if (p.in === "cookie") continue;
+      const field = shape[p.name] || (json && p.name === "body") ? `${p.in}_${p.name}` : p.name;
+      let t = schemaToZod(doc, p.schema);
+      if (p.description) t = t.describe(p.description);
+      shape[field] = p.required || p.in === "path" ? t : t.optional();
+      operation.params.push({ field, name: p.name, in: p.in });
+    }
+
+    if (json) {
+      const t = schemaToZod(doc, json.schema).describe(body.description || "JSON request body");
+      shape.body = body.required ? t : t.optional();
+      operation.hasBody = true;
+    }
+
+    const summary = op.summary || `${method.toUpperCase()} ${path}`;
+    this.registerTool({
+      name: toolName,
+      title: `${this.name}: ${summary}`,
+      description: [op.summary, op.description].filter(Boolean).join("\n\n") || `${method.toUpperCase()} ${path}`,
+      annotations: annotationsFor(method),
+      inputSchema: z.object(shape),
+      outputSchema: z.object({ status: z.number(), body: z.unknown() }),
+      handler: (args) => this.call(operation, args)
+    });
+  }
+
+  private async call(op: Operation, args: any) {
+    let path = op.path;
+    const qs = new URLSearchParams();
+    const headers: Record<string, string> = { "Accept": "application/json", ...this.cfg.headers };
+    for (const p of op.params) {
+      const v = args[p.field];
+      if (v === undefined || v === null) continue;
+      if (p.in === "path") path = path.replace(`{${p.name}}`, encodeURIComponent(String(v)));
+      else if (p.in === "header") headers[p.name] = String(v);
+      else if (Array.isArray(v)) v.forEach(item => qs.append(p.name, String(item)));
+      else qs.set(p.name, typeof v === "object" ? JSON.stringify(v) : String(v));
+    }
+    if (op.hasBody && args.body !== undefined) headers["Content-Type"] = "application/json";
+
+    const query = qs.toString();
+    const url = `${this.baseUrl}${path}${query ? `?${query}` : ""}`;
+    // Don't blindly repeat non-idempotent requests.
+    const retries = op.method === "post" || op.method === "patch" ? 0 : 2;
+    const res = await this.authorized(args.subject, auth =>
+      httpWithRetry(op.method.toUpperCase(), url, { ...headers, ...auth }, op.hasBody ? args.body : undefined, { retries }));
+    if (!res.ok) {
+      const j = res.json || {};
+      const detail = j.message || j.error_description || j.error || j.detail || j.title || JSON.stringify(j);
+      throw new Error(`${op.toolName} failed (HTTP ${res.status}): ${typeof detail === "string" ? detail : JSON.stringify(detail)}`);
+    }
+    return structuredResult({ status: res.status, body: res.json });
+  }
+
+  private async authorized(subject: string | undefined, send: (auth: Record<string, string>) => Promise<HttpResponse>): Promise<HttpResponse> {
+    const auth = this.cfg.auth;
+    switch (auth.type) {
+      case "none":
+        return send({});
+      case "bearer":
+        return send({ Authorization: `Bearer ${requiredEnv(auth.token_env)}` });
+      case "header":
+        return send({ [auth.name]: requiredEnv(auth.value_env) });
+      case "token_store": {
+        const provider = auth.provider ?? this.name;
+        const owner = this.providers?.(provider);
+        if (owner instanceof OAuth2Provider) return owner.authorizedRequest(subject, token => send({ Authorization: `Bearer ${token}` }));
+        // Nothing loaded can refresh these tokens, so only a current one is used.
+        const s = subject || "default";
+        const rec = await this.store.getToken(provider, s);
+        if (!rec || rec.needs_reconsent) throw new Error(`No usable ${provider} token for subject '${s}'`);
+        if (rec.expires_at && Date.parse(rec.expires_at) <= Date.now()) throw new Error(`The ${provider} token for subject '${s}' has expired and no loaded provider '${provider}' can refresh it`);
+        return send({ Authorization: `Bearer ${rec.access_token}` });
+      }
+    }
+  }
+}
+
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Environment variable ${name} is not set`);
+  return v;
+}
+
+// Reads OPENAPI_PROVIDERS_FILE: a JSON array of provider configs.
+export function loadOpenApiProviders(file: string, store: TokenStore, usage?: UsageStore, providers?: (name: string) => Provider | undefined): OpenApiProvider[] {
+  if (!file) return [];
+  const parsed = z.array(openApiProviderSchema).safeParse(JSON.parse(readFileSync(file, "utf8")));
+  if (!parsed.success) throw new Error(`Invalid OpenAPI provider config ${file}: ${parsed.error.issues.map(i => `${i.path.join(".")}: ${i.message}`).join("; ")}`);
+  return parsed.data.map(cfg => new OpenApiProvider(cfg, resolve(dirname(file), cfg.spec), store, usage, providers));
+}
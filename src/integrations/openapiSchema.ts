@@ -0,0 +1,110 @@
+// Converts OpenAPI 3 (JSON Schema subset) schemas into zod, resolving local $refs.
+import { z, ZodTypeAny } from "zod";
+
+// Recursive schemas are cut off here and accept anything below.
+const MAX_DEPTH = 12;
+
+export function resolveRef(doc: any, ref: string): any {
+  if (!ref.startsWith("#/")) throw new Error(`Only local $refs are supported (got ${ref})`);
+  const target = ref.slice(2).split("/").reduce((node, part) => node?.[part.replace(/~1/g, "/").replace(/~0/g, "~")], doc);
+  if (target === undefined) throw new Error(`Unresolvable $ref ${ref}`);
+  return target;
+}
+
+// Follows $ref chains to the referenced object (parameters, request bodies, schemas).
+export function deref(doc: any, node: any): any {
+  const seen = new Set<string>();
+  while (node?.$ref) {
+    if (seen.has(node.$ref)) throw new Error(`Circular $ref ${node.$ref}`);
+    seen.add(node.$ref);
+    node = resolveRef(doc, node.$ref);
+  }
+  return node;
+}
+
+function withMeta(t: ZodTypeAny, schema: any): ZodTypeAny {
+  let out = t;
+  if (schema.nullable) out = out.nullable();
+  if (schema.description) out = out.describe(schema.description);
+  return out;
+}
+
+export function schemaToZod(doc: any, schema: any, depth = 0, refs: string[] = []): ZodTypeAny {
+  if (!schema || depth > MAX_DEPTH) return z.any();
+  if (schema.$ref) {
+    if (refs.includes(schema.$ref)) return z.any();
+    return schemaToZod(doc, resolveRef(doc, schema.$ref), depth + 1, [...refs, schema.$ref]);
+  }
+  const next = (s: any) => schemaToZod(doc, s, depth + 1, refs);
+
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (Array.isArray(variants) && variants.length) {
+    const options = variants.map(next);
+    return withMeta(options.length === 1 ? options[0] : z.union(options as [ZodTypeAny, ZodTypeAny, ...ZodTypeAny[]]), schema);
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length) {
+    const parts = schema.allOf.map((s: any) => deref(doc, s));
+    // Merge object parts into one object; anything fancier accepts the value as-is.
+    if (parts.every((p: any) => p.type === "object" || p.properties)) {
+      const merged = {
+        type: "object",
+        properties: Object.assign({}, ...parts.map((p: any) => p.properties ?? {})),
+        required: parts.flatMap((p: any) => p.required ?? [])
+      };
+      return withMeta(next(merged), schema);
+    }
+    return withMeta(z.any(), schema);
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length) {
+    const strings = schema.enum.filter((v: unknown) => typeof v === "string");
+    const t = strings.length === schema.enum.length
+      ? z.enum(strings as [string, ...string[]])
+      : z.union(schema.enum.map((v: any) => z.literal(v)) as any);
+    return withMeta(t, schema);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  let t: ZodTypeAny;
+  switch (type) {
+    case "string": {
+      let s = z.string();
+      if (typeof schema.minLength === "number") s = s.min(schema.minLength);
+      if (typeof schema.maxLength === "number") s = s.max(schema.maxLength);
+      t = s;
+      break;
+    }
+    case "integer":
+    case "number": {
+      let n = type === "integer" ? z.number().int() : z.number();
+      if (typeof schema.minimum === "number") n = n.min(schema.minimum);
+      if (typeof schema.maximum === "number") n = n.max(schema.maximum);
+      t = n;
+      break;
+    }
+    case "boolean":
+      t = z.boolean();
+      break;
+    case "array":
+      t = z.array(next(schema.items));
+      break;
+    case "object":
+    case undefined: {
+      if (type === undefined && !schema.properties) return withMeta(z.any(), schema);
+      const required = new Set<string>(schema.required ?? []);
+      const shape: Record<string, ZodTypeAny> = {};
+      for (const [key, prop] of Object.entries<any>(schema.properties ?? {})) {
+        if (prop?.readOnly) continue;
+        const field = next(prop);
+        shape[key] = required.has(key) ? field : field.optional();
+      }
+      const obj = z.object(shape);
+      t = schema.additionalProperties === false ? obj.strict() : obj.passthrough();
+      break;
+    }
+    default:
+      t = z.any();
+  }
+  if (Array.isArray(schema.type) && schema.type.includes("null")) t = t.nullable();
+  return withMeta(t, schema);
+}
@@ -1,3 +1,32 @@
 import pino from 'pino';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { config } from './config.js';
-export const logger = pino({ level: config.logLevel });
+
+// Fields attached to every log line written while handling one tool call.
+export interface LogContext {
+  correlation_id: string;
+  session_id?: string;
+  tool?: string;
+  subject?: string;
+  cache?: CacheResult; // set by read-through caches during the call
+}
+
+export type CacheResult = 'hit' | 'miss' | 'bypass';
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+export const logger = pino({ level: config.logLevel, mixin: () => ({ ...logContext.getStore() }) });
+
+export function withLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return logContext.run(ctx, fn);
+}
+
+export function currentLogContext() {
+  return logContext.getStore();
+}
+
+// A call that went upstream at least once counts as a miss.
+export function recordCacheResult(result: CacheResult) {
+  const ctx = logContext.getStore();
+  if (ctx && ctx.cache !== 'miss') ctx.cache = result;
+}
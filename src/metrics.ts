@@ -0,0 +1,55 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const toolCalls = new Counter({
+  name: 'mcp_tool_calls_total',
+  help: 'Tool calls by provider, tool and outcome',
+  labelNames: ['provider', 'tool', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const toolCallDuration = new Histogram({
+  name: 'mcp_tool_call_duration_seconds',
+  help: 'Tool call latency, including outbound requests',
+  labelNames: ['provider', 'tool'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+export const activeSessions = new Gauge({
+  name: 'mcp_active_sessions',
+  help: 'Open MCP sessions by transport',
+  labelNames: ['transport'] as const,
+  registers: [metricsRegistry]
+});
+
+// `host` rather than the full URL keeps label cardinality bounded.
+export const outboundRequests = new Counter({
+  name: 'http_outbound_requests_total',
+  help: 'Outbound HTTP attempts by host, method and status (0 = network error)',
+  labelNames: ['host', 'method', 'status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const outboundRetries = new Counter({
+  name: 'http_outbound_retries_total',
+  help: 'Outbound HTTP retries by host and reason',
+  labelNames: ['host', 'reason'] as const,
+  registers: [metricsRegistry]
+});
+
+export const tokenRefreshes = new Counter({
+  name: 'oauth_token_refreshes_total',
+  help: 'OAuth token refreshes by provider and outcome',
+  labelNames: ['provider', 'outcome'] as const,
+  registers: [metricsRegistry]
+});
+
+export const cacheLookups = new Counter({
+  name: 'cache_lookups_total',
+  help: 'Read-through cache lookups by cache and result (hit, miss, bypass)',
+  labelNames: ['cache', 'result'] as const,
+  registers: [metricsRegistry]
+});
@@ -0,0 +1,152 @@
+import express from "express";
+import { z } from "zod";
+import { generateApiKey, requireAdmin } from "../core/auth.js";
+import { OAuth2Provider } from "../core/oauth2Provider.js";
+import { toolPolicySchema } from "../core/policy.js";
+import type { ProviderRegistry } from "../core/registry.js";
+import type { SessionManager } from "../core/sessions.js";
+import type { ApiKeyStore } from "../storage/apiKeyStore.js";
+import type { AuditStore } from "../storage/auditStore.js";
+import type { TokenStore } from "../storage/tokenStore.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+export interface AdminDeps {
+  adminSecret: string;
+  apiKeys: ApiKeyStore;
+  sessions: SessionManager;
+  registry: ProviderRegistry;
+  tokens: TokenStore;
+  audit: AuditStore;
+}
+
+const createKeyBody = z.object({
+  name: z.string().min(1),
+  subjects: z.array(z.string().min(1)).min(1),
+  default_subject: z.string().optional(),
+  policy: toolPolicySchema.optional()
+}).refine(b => !b.default_subject || b.subjects.includes("*") || b.subjects.includes(b.default_subject), {
+  message: "default_subject must be one of subjects",
+  path: ["default_subject"]
+});
+
+const connectBody = z.object({ return_url: z.string().url().optional() });
+
+const auditQuery = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  subject: z.string().min(1).optional(),
+  key_id: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+  tool: z.string().min(1).optional(), // "tool" or "provider.tool"
+  outcome: z.enum(["success", "error", "denied"]).optional(),
+  object_id: z.string().min(1).optional(),
+  before: z.coerce.number().int().positive().optional(), // next_cursor of the previous page
+  limit: z.coerce.number().int().min(1).max(1000).default(100)
+});
+
+export function adminRouter(deps: AdminDeps) {
+  const router = express.Router();
+  router.use(requireAdmin(deps.adminSecret));
+
+  const oauthProvider = (name: string, res: express.Response) => {
+    const p = deps.registry.get(name);
+    if (p instanceof OAuth2Provider) return p;
+    res.status(404).json({ error: `No OAuth provider '${name}'` });
+    return null;
+  };
+
+  router.post("/keys", asyncHandler(async (req, res) => {
+    const parsed = createKeyBody.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid request", issues: parsed.error.issues });
+    const { key, record } = generateApiKey(parsed.data.name, parsed.data.subjects, parsed.data.default_subject, parsed.data.policy);
+    await deps.apiKeys.create(record);
+    const { key_hash, ...shown } = record;
+    // The plaintext key is only ever returned here.
+    res.status(201).json({ ...shown, key });
+  }));
+
+  router.get("/keys", asyncHandler(async (_req, res) => {
+    const keys = await deps.apiKeys.list();
+    res.json({ keys: keys.map(({ key_hash, ...k }) => k) });
+  }));
+
+  // Replaces a key's tool policy; `null` removes it. Applies to sessions opened afterwards.
+  router.put("/keys/:id/policy", asyncHandler(async (req, res) => {
+    const parsed = toolPolicySchema.nullable().safeParse(req.body?.policy);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid policy", issues: parsed.error.issues });
+    const updated = await deps.apiKeys.setPolicy(req.params.id, parsed.data);
+    if (!updated) return res.status(404).json({ error: "Key not found or revoked" });
+    res.json({ id: req.params.id, policy: parsed.data });
+  }));
+
+  router.delete("/keys/:id", asyncHandler(async (req, res) => {
+    const revoked = await deps.apiKeys.revoke(req.params.id);
+    if (!revoked) return res.status(404).json({ error: "Key not found or already revoked" });
+    res.json({ id: req.params.id, revoked: true });
+  }));
+
+  router.get("/sessions", asyncHandler(async (_req, res) => {
+    res.json({ sessions: await deps.sessions.list() });
+  }));
+
+  // Ends the session on every instance; the client has to initialize a new one.
+  router.delete("/sessions/:id", asyncHandler(async (req, res) => {
+    const killed = await deps.sessions.kill(req.params.id);
+    if (!killed) return res.status(404).json({ error: "Session not found" });
+    res.json({ id: req.params.id, killed: true });
+  }));
+
+  // Connected subjects per provider; tokens themselves are never returned.
+  router.get("/tenants", asyncHandler(async (req, res) => {
+    const provider = typeof req.query.provider === "string" ? req.query.provider : undefined;
+    res.json({ tenants: await deps.tokens.listTokens(provider) });
+  }));
+
+  // Calls the provider with the subject's token (refreshing it if needed) to see whether it still works.
+  router.get("/tenants/:provider/:subject/health", asyncHandler(async (req, res) => {
+    const p = oauthProvider(req.params.provider, res);
+    if (!p) return;
+    if (!p.checkToken) return res.status(501).json({ error: `Provider '${p.name}' has no token check` });
+    res.json({ provider: p.name, subject: req.params.subject, ...await p.checkToken(req.params.subject) });
+  }));
+
+  // Revokes the token at the provider (unless ?revoke=false) and deletes it.
+  router.delete("/tenants/:provider/:subject", asyncHandler(async (req, res) => {
+    const p = oauthProvider(req.params.provider, res);
+    if (!p) return;
+    const result = await p.disconnect(req.params.subject, req.query.revoke !== "false");
+    if (!result.deleted) return res.status(404).json({ error: "No token for this subject" });
+    res.json({ provider: p.name, subject: req.params.subject, ...result });
+  }));
+
+  // Returns a consent link that stores the token under this subject and then redirects to return_url.
+  router.post("/tenants/:provider/:subject/connect", asyncHandler(async (req, res) => {
+    const p = oauthProvider(req.params.provider, res);
+    if (!p) return;
+    const parsed = connectBody.safeParse(req.body ?? {});
+    if (!parsed.success) return res.status(400).json({ error: "Invalid request", issues: parsed.error.issues });
+    const unavailable = p.authorizationUnavailable();
+    if (unavailable) return res.status(400).json({ error: unavailable });
+    const authorizeUrl = await p.beginAuthorization({ subject: req.params.subject, returnTo: parsed.data.return_url, caller: "admin" });
+    res.status(201).json({ provider: p.name, subject: req.params.subject, authorize_url: authorizeUrl });
+  }));
+
+  // Tool calls, newest first; page with ?before=<next_cursor>.
+  router.get("/audit", asyncHandler(async (req, res) => {
+    const parsed = auditQuery.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+    const { from, to, tool, provider, ...q } = parsed.data;
+    const dot = tool ? tool.indexOf(".") : -1;
+    const entries = await deps.audit.query({
+      ...q,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      provider: provider ?? (dot > 0 ? tool!.slice(0, dot) : undefined),
+      tool: dot > 0 ? tool!.slice(dot + 1) : tool
+    });
+    const nextCursor = entries.length === q.limit ? entries[entries.length - 1].seq : null;
+    res.json({ entries, next_cursor: nextCursor });
+  }));
+
+  return router;
+}
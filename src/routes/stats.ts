@@ -0,0 +1,50 @@
+import express from "express";
+import { z } from "zod";
+import type { UsageStore } from "../storage/usageStore.js";
+import { asyncHandler } from "../utils/asyncHandler.js";
+
+const DEFAULT_RANGE_MS = 24 * 3600_000;
+// Keeps a long range with a tiny bucket from producing a huge response.
+const MAX_BUCKETS = 1000;
+const UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+// "300", "5m", "1h", "1d" -> seconds
+function bucketSeconds(v: string) {
+  const m = /^(\d+)([smhd]?)$/.exec(v.trim());
+  return m ? Number(m[1]) * UNITS[m[2] || "s"] : NaN;
+}
+
+const statsQuery = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  bucket: z.string().default("1h").transform(bucketSeconds).refine(n => Number.isInteger(n) && n > 0, "use seconds or a duration like 5m, 1h, 1d"),
+  subject: z.string().min(1).optional(),
+  provider: z.string().min(1).optional(),
+  tool: z.string().min(1).optional() // "tool" or "provider.tool"; resource reads are "resource:<name>"
+});
+
+export function statsRouter(usageStore: UsageStore) {
+  const router = express.Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    const parsed = statsQuery.safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: "Invalid query", issues: parsed.error.issues });
+    const q = parsed.data;
+    const to = q.to ? new Date(q.to) : new Date();
+    const from = q.from ? new Date(q.from) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+    if (from >= to) return res.status(400).json({ error: "from must be before to" });
+    if ((to.getTime() - from.getTime()) / 1000 / q.bucket > MAX_BUCKETS) {
+      return res.status(400).json({ error: `Range spans more than ${MAX_BUCKETS} buckets; use a larger bucket` });
+    }
+
+    let { provider, tool } = q;
+    const dot = tool ? tool.indexOf(".") : -1;
+    if (tool && dot > 0 && !provider) {
+      provider = tool.slice(0, dot);
+      tool = tool.slice(dot + 1);
+    }
+    res.json(await usageStore.stats({ from, to, bucketSeconds: q.bucket, subject: q.subject, provider, tool }));
+  }));
+
+  return router;
+}
@@ -0,0 +1,23 @@
+// Re-wraps all stored OAuth tokens with the active TOKEN_ENCRYPTION_KEYS entry and
+// scrubs secrets from their `raw` payloads. Run after adding a new key at the front of the list.
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { PostgresTokenStore } from '../storage/tokenStore.js';
+import { KeyRing, TokenCipher } from '../storage/tokenCrypto.js';
+
+if (!config.databaseUrl) {
+  logger.error('DATABASE_URL is required');
+  process.exit(1);
+}
+const cipher = new TokenCipher(new KeyRing(config.tokenEncryptionKeys));
+if (!cipher.enabled) {
+  logger.error('TOKEN_ENCRYPTION_KEYS is required');
+  process.exit(1);
+}
+const store = new PostgresTokenStore(config.databaseUrl, cipher);
+await store.init();
+try {
+  await store.reencryptAll();
+} finally {
+  await store.close();
+}
@@ -0,0 +1,107 @@
+import { Pool } from 'pg';
+import type { ToolPolicy } from '../core/policy.js';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  key_hash: string; // sha256 of the full key; the key itself is never stored
+  prefix: string;   // first characters of the key, to recognise it in listings
+  subjects: string[]; // tenants this key may act for; '*' allows any
+  default_subject: string;
+  policy?: ToolPolicy | null;
+  created_at?: string;
+  revoked_at?: string | null;
+  last_used_at?: string | null;
+}
+
+export interface ApiKeyStore {
+  init?(): Promise<void>;
+  create(rec: ApiKeyRecord): Promise<void>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  list(): Promise<ApiKeyRecord[]>;
+  revoke(id: string): Promise<boolean>;
+  setPolicy(id: string, policy: ToolPolicy | null): Promise<boolean>;
+  touch(id: string): Promise<void>;
+}
+
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private map = new Map<string, ApiKeyRecord>();
+  async create(rec: ApiKeyRecord) {
+    this.map.set(rec.id, { ...rec, created_at: new Date().toISOString(), revoked_at: null, last_used_at: null });
+  }
+  async findByHash(keyHash: string) {
+    for (const r of this.map.values()) if (r.key_hash === keyHash && !r.revoked_at) return r;
+    return null;
+  }
+  async list() {
+    return [...this.map.values()];
+  }
+  async revoke(id: string) {
+    const r = this.map.get(id);
+    if (!r || r.revoked_at) return false;
+    r.revoked_at = new Date().toISOString();
+    return true;
+  }
+  async setPolicy(id: string, policy: ToolPolicy | null) {
+    const r = this.map.get(id);
+    if (!r || r.revoked_at) return false;
+    r.policy = policy;
+    return true;
+  }
+  async touch(id: string) {
+    const r = this.map.get(id);
+    if (r) r.last_used_at = new Date().toISOString();
+  }
+}
+
+const ts = (col: string) => `case when ${col} is null then null else to_char(${col} at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') end as ${col}`;
+
+export class PostgresApiKeyStore implements ApiKeyStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists api_keys (
+        id text primary key,
+        name text not null,
+        key_hash text not null unique,
+        prefix text not null,
+        subjects text[] not null,
+        default_subject text not null,
+        created_at timestamptz default now(),
+        revoked_at timestamptz,
+        last_used_at timestamptz
+      );
+      alter table api_keys add column if not exists policy jsonb;
+    `);
+  }
+  private readonly columns = `id, name, key_hash, prefix, subjects, default_subject, policy, ${ts('created_at')}, ${ts('revoked_at')}, ${ts('last_used_at')}`;
+  async create(rec: ApiKeyRecord) {
+    await this.pool.query(
+      `insert into api_keys (id, name, key_hash, prefix, subjects, default_subject, policy) values ($1,$2,$3,$4,$5,$6,$7)`,
+      [rec.id, rec.name, rec.key_hash, rec.prefix, rec.subjects, rec.default_subject, rec.policy ?? null]
+    );
+  }
+  async findByHash(keyHash: string) {
+    const { rows } = await this.pool.query(
+      `select ${this.columns} from api_keys where key_hash=$1 and revoked_at is null`,
+      [keyHash]
+    );
+    return rows[0] || null;
+  }
+  async list() {
+    const { rows } = await this.pool.query(`select ${this.columns} from api_keys order by created_at`);
+    return rows;
+  }
+  async revoke(id: string) {
+    const res = await this.pool.query(`update api_keys set revoked_at=now() where id=$1 and revoked_at is null`, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }
+  async setPolicy(id: string, policy: ToolPolicy | null) {
+    const res = await this.pool.query(`update api_keys set policy=$2 where id=$1 and revoked_at is null`, [id, policy]);
+    return (res.rowCount ?? 0) > 0;
+  }
+  async touch(id: string) {
+    await this.pool.query(`update api_keys set last_used_at=now() where id=$1`, [id]);
+  }
+}
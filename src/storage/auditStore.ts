@@ -0,0 +1,124 @@
+import { Pool } from 'pg';
+
+// One tool invocation, as written to the append-only audit log.
+export interface AuditRecord {
+  seq?: number; // assigned on append; cursors are seqs
+  at?: string;
+  correlation_id?: string | null;
+  session_id?: string | null;
+  key_id?: string | null;
+  caller?: string | null;
+  subject?: string | null;
+  provider: string;
+  tool: string;
+  args?: Record<string, unknown> | null; // redacted
+  outcome: 'success' | 'error' | 'denied';
+  error_message?: string | null;
+  object_ids?: string[];
+  idempotency_key?: string | null;
+  replayed?: boolean; // answered from a stored idempotent result
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date; // exclusive
+  subject?: string;
+  key_id?: string;
+  provider?: string;
+  tool?: string;
+  outcome?: string;
+  object_id?: string;
+  before?: number; // seq cursor; entries come newest first
+  limit: number;
+}
+
+// Append and read only: nothing in the hub updates or deletes audit entries.
+export interface AuditStore {
+  init?(): Promise<void>;
+  append(rec: AuditRecord): Promise<void>;
+  query(q: AuditQuery): Promise<AuditRecord[]>;
+}
+
+export class InMemoryAuditStore implements AuditStore {
+  private rows: AuditRecord[] = [];
+  async append(rec: AuditRecord) {
+    this.rows.push({ ...rec, seq: this.rows.length + 1, at: new Date().toISOString() });
+  }
+  async query(q: AuditQuery) {
+    const out: AuditRecord[] = [];
+    for (let i = this.rows.length - 1; i >= 0 && out.length < q.limit; i--) {
+      const r = this.rows[i];
+      const at = Date.parse(r.at!);
+      if (q.before !== undefined && r.seq! >= q.before) continue;
+      if (q.from && at < q.from.getTime()) continue;
+      if (q.to && at >= q.to.getTime()) continue;
+      if (q.subject && r.subject !== q.subject) continue;
+      if (q.key_id && r.key_id !== q.key_id) continue;
+      if (q.provider && r.provider !== q.provider) continue;
+      if (q.tool && r.tool !== q.tool) continue;
+      if (q.outcome && r.outcome !== q.outcome) continue;
+      if (q.object_id && !r.object_ids?.includes(q.object_id)) continue;
+      out.push(r);
+    }
+    return out;
+  }
+}
+
+export class PostgresAuditStore implements AuditStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists audit_log (
+        seq bigserial primary key,
+        at timestamptz default now(),
+        correlation_id text,
+        session_id text,
+        key_id text,
+        caller text,
+        subject text,
+        provider text not null,
+        tool text not null,
+        args jsonb,
+        outcome text not null,
+        error_message text,
+        object_ids text[] not null default '{}',
+        idempotency_key text,
+        replayed boolean not null default false
+      );
+      create index if not exists audit_log_at_idx on audit_log (at);
+      create index if not exists audit_log_subject_idx on audit_log (subject, seq);
+      create index if not exists audit_log_object_ids_idx on audit_log using gin (object_ids);
+    `);
+  }
+  async append(r: AuditRecord) {
+    await this.pool.query(
+      `insert into audit_log (correlation_id, session_id, key_id, caller, subject, provider, tool, args, outcome, error_message, object_ids, idempotency_key, replayed)
+       values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)`,
+      [r.correlation_id ?? null, r.session_id ?? null, r.key_id ?? null, r.caller ?? null, r.subject ?? null, r.provider, r.tool,
+        r.args ?? null, r.outcome, r.error_message ?? null, r.object_ids ?? [], r.idempotency_key ?? null, r.replayed ?? false]
+    );
+  }
+  async query(q: AuditQuery) {
+    const where: string[] = [];
+    const params: any[] = [];
+    const add = (sql: string, value: unknown) => { params.push(value); where.push(sql.replace('?', `$${params.length}`)); };
+    if (q.before !== undefined) add('seq < ?', q.before);
+    if (q.from) add('at >= ?', q.from);
+    if (q.to) add('at < ?', q.to);
+    if (q.subject) add('subject = ?', q.subject);
+    if (q.key_id) add('key_id = ?', q.key_id);
+    if (q.provider) add('provider = ?', q.provider);
+    if (q.tool) add('tool = ?', q.tool);
+    if (q.outcome) add('outcome = ?', q.outcome);
+    if (q.object_id) add('object_ids @> array[?]::text[]', q.object_id);
+    params.push(q.limit);
+    const { rows } = await this.pool.query(
+      `select seq, to_char(at at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as at, correlation_id, session_id, key_id, caller, subject,
+              provider, tool, args, outcome, error_message, object_ids, idempotency_key, replayed
+       from audit_log ${where.length ? `where ${where.join(' and ')}` : ''} order by seq desc limit $${params.length}`,
+      params
+    );
+    return rows.map(r => ({ ...r, seq: Number(r.seq) }));
+  }
+}
@@ -0,0 +1,141 @@
+import { Pool } from 'pg';
+
+// A change notification received from a provider (e.g. a Notion webhook event).
+export interface ProviderEvent {
+  seq?: number; // position in the log, assigned on append; cursors are seqs
+  id: string; // upstream event id, for de-duplicating redeliveries
+  provider: string;
+  subject: string;
+  type: string; // e.g. page.content_updated
+  entity_id?: string | null;
+  entity_type?: string | null;
+  parent_id?: string | null;
+  occurred_at: string;
+  received_at?: string;
+  data?: any; // the delivered payload
+}
+
+export interface EventQuery {
+  provider: string;
+  subject: string;
+  // Events after this seq, oldest first. Without it, the newest `limit` events (still oldest first).
+  after?: number;
+  limit: number;
+  types?: string[];
+  entityId?: string; // matches the entity or its parent; dashes and case are ignored
+}
+
+export interface EventStore {
+  init?(): Promise<void>;
+  // Returns the stored event, or null when it was already recorded.
+  append(event: ProviderEvent): Promise<ProviderEvent | null>;
+  list(q: EventQuery): Promise<ProviderEvent[]>;
+  // Events of every provider and subject after `seq`, oldest first (for dispatch).
+  since(seq: number, limit: number): Promise<ProviderEvent[]>;
+  latestSeq(): Promise<number>;
+  prune(olderThan: Date): Promise<number>;
+}
+
+const bareId = (id?: string | null) => (id ?? '').replace(/-/g, '').toLowerCase();
+
+export class InMemoryEventStore implements EventStore {
+  private events: ProviderEvent[] = [];
+  private seq = 0;
+  async append(event: ProviderEvent) {
+    if (this.events.some(e => e.provider === event.provider && e.id === event.id)) return null;
+    const stored = { ...event, seq: ++this.seq, received_at: new Date().toISOString() };
+    this.events.push(stored);
+    return stored;
+  }
+  async list(q: EventQuery) {
+    const entity = q.entityId && bareId(q.entityId);
+    const matching = this.events.filter(e =>
+      e.provider === q.provider && e.subject === q.subject &&
+      (q.after === undefined || e.seq! > q.after) &&
+      (!q.types?.length || q.types.includes(e.type)) &&
+      (!entity || bareId(e.entity_id) === entity || bareId(e.parent_id) === entity));
+    return q.after === undefined ? matching.slice(-q.limit) : matching.slice(0, q.limit);
+  }
+  async since(seq: number, limit: number) {
+    return this.events.filter(e => e.seq! > seq).slice(0, limit);
+  }
+  async latestSeq() {
+    return this.seq;
+  }
+  async prune(olderThan: Date) {
+    const before = this.events.length;
+    this.events = this.events.filter(e => Date.parse(e.received_at!) >= olderThan.getTime());
+    return before - this.events.length;
+  }
+}
+
+// bigint columns come back from pg as strings.
+const withSeq = (row: any): ProviderEvent => ({ ...row, seq: Number(row.seq) });
+
+const ts = (col: string) => `to_char(${col} at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as ${col}`;
+
+export class PostgresEventStore implements EventStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists provider_events (
+        seq bigserial primary key,
+        id text not null,
+        provider text not null,
+        subject text not null,
+        type text not null,
+        entity_id text,
+        entity_type text,
+        parent_id text,
+        occurred_at timestamptz not null,
+        received_at timestamptz default now(),
+        data jsonb,
+        unique (provider, id)
+      );
+      create index if not exists provider_events_subject_idx on provider_events (provider, subject, seq);
+      create index if not exists provider_events_received_idx on provider_events (received_at);
+    `);
+  }
+  private readonly columns = `seq, id, provider, subject, type, entity_id, entity_type, parent_id, ${ts('occurred_at')}, ${ts('received_at')}, data`;
+  async append(e: ProviderEvent) {
+    const { rows } = await this.pool.query(
+      `insert into provider_events (id, provider, subject, type, entity_id, entity_type, parent_id, occurred_at, data)
+       values ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+       on conflict (provider, id) do nothing
+       returning ${this.columns}`,
+      [e.id, e.provider, e.subject, e.type, e.entity_id ?? null, e.entity_type ?? null, e.parent_id ?? null, new Date(e.occurred_at), e.data ?? null]
+    );
+    return rows[0] ? withSeq(rows[0]) : null;
+  }
+  async list(q: EventQuery) {
+    const where = ['provider=$1', 'subject=$2'];
+    const params: any[] = [q.provider, q.subject];
+    if (q.after !== undefined) { params.push(q.after); where.push(`seq > $${params.length}`); }
+    if (q.types?.length) { params.push(q.types); where.push(`type = any($${params.length})`); }
+    if (q.entityId) {
+      params.push(bareId(q.entityId));
+      where.push(`(lower(replace(entity_id,'-','')) = $${params.length} or lower(replace(parent_id,'-','')) = $${params.length})`);
+    }
+    params.push(q.limit);
+    const order = q.after === undefined ? 'desc' : 'asc';
+    const { rows } = await this.pool.query(
+      `select ${this.columns} from provider_events where ${where.join(' and ')} order by seq ${order} limit $${params.length}`,
+      params
+    );
+    const events = rows.map(withSeq);
+    return q.after === undefined ? events.reverse() : events;
+  }
+  async since(seq: number, limit: number) {
+    const { rows } = await this.pool.query(`select ${this.columns} from provider_events where seq > $1 order by seq limit $2`, [seq, limit]);
+    return rows.map(withSeq);
+  }
+  async latestSeq() {
+    const { rows } = await this.pool.query(`select coalesce(max(seq), 0) as seq from provider_events`);
+    return Number(rows[0].seq);
+  }
+  async prune(olderThan: Date) {
+    const res = await this.pool.query(`delete from provider_events where received_at < $1`, [olderThan]);
+    return res.rowCount ?? 0;
+  }
+}
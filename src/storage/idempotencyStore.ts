@@ -0,0 +1,91 @@
+import { Pool } from 'pg';
+
+// The first call made with an idempotency key, and (once it succeeded) its result.
+export interface IdempotencyRecord {
+  subject: string;
+  key: string;
+  tool: string; // full tool name
+  args_hash: string;
+  status: 'pending' | 'done';
+  result?: any;
+  created_at?: string;
+  expires_at: string;
+}
+
+export interface IdempotencyStore {
+  init?(): Promise<void>;
+  // Inserts `rec` unless a live record holds (subject, key); returns that record, or null when claimed.
+  claim(rec: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  complete(subject: string, key: string, result: any, expiresAt: Date): Promise<void>;
+  // Drops a pending claim so the call can be retried (after a failure).
+  release(subject: string, key: string): Promise<void>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private map = new Map<string, IdempotencyRecord>();
+  async claim(rec: IdempotencyRecord) {
+    const now = Date.now();
+    for (const [k, r] of this.map) if (Date.parse(r.expires_at) <= now) this.map.delete(k);
+    const id = `${rec.subject}\u0000${rec.key}`;
+    const existing = this.map.get(id);
+    if (existing) return existing;
+    this.map.set(id, { ...rec, created_at: new Date().toISOString() });
+    return null;
+  }
+  async complete(subject: string, key: string, result: any, expiresAt: Date) {
+    const r = this.map.get(`${subject}\u0000${key}`);
+    if (r) Object.assign(r, { status: 'done', result, expires_at: expiresAt.toISOString() });
+  }
+  async release(subject: string, key: string) {
+    const id = `${subject}\u0000${key}`;
+    if (this.map.get(id)?.status === 'pending') this.map.delete(id);
+  }
+}
+
+const ts = (col: string) => `to_char(${col} at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as ${col}`;
+
+export class PostgresIdempotencyStore implements IdempotencyStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists idempotency_keys (
+        subject text not null,
+        key text not null,
+        tool text not null,
+        args_hash text not null,
+        status text not null,
+        result jsonb,
+        created_at timestamptz default now(),
+        expires_at timestamptz not null,
+        primary key (subject, key)
+      );
+      create index if not exists idempotency_keys_expires_idx on idempotency_keys (expires_at);
+    `);
+  }
+  async claim(rec: IdempotencyRecord): Promise<IdempotencyRecord | null> {
+    await this.pool.query(`delete from idempotency_keys where expires_at <= now()`);
+    const inserted = await this.pool.query(
+      `insert into idempotency_keys (subject, key, tool, args_hash, status, expires_at) values ($1,$2,$3,$4,$5,$6)
+       on conflict (subject, key) do nothing`,
+      [rec.subject, rec.key, rec.tool, rec.args_hash, rec.status, new Date(rec.expires_at)]
+    );
+    if (inserted.rowCount) return null;
+    const { rows } = await this.pool.query(
+      `select subject, key, tool, args_hash, status, result, ${ts('created_at')}, ${ts('expires_at')}
+       from idempotency_keys where subject=$1 and key=$2`,
+      [rec.subject, rec.key]
+    );
+    // Expired and removed in between: try once more.
+    return rows[0] ?? (await this.claim(rec));
+  }
+  async complete(subject: string, key: string, result: any, expiresAt: Date) {
+    await this.pool.query(
+      `update idempotency_keys set status='done', result=$3, expires_at=$4 where subject=$1 and key=$2`,
+      [subject, key, JSON.stringify(result), expiresAt]
+    );
+  }
+  async release(subject: string, key: string) {
+    await this.pool.query(`delete from idempotency_keys where subject=$1 and key=$2 and status='pending'`, [subject, key]);
+  }
+}
@@ -0,0 +1,97 @@
+import { Pool } from 'pg';
+import type { OAuthClientInformationFull } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+// State of the hub's own OAuth authorization server (for MCP clients, not Notion).
+// Grants are keyed by a hash of their secret value, never the value itself.
+export type GrantKind = 'pending' | 'code' | 'access' | 'refresh';
+
+export interface OAuthServerStore {
+  init?(): Promise<void>;
+  getClient(clientId: string): Promise<OAuthClientInformationFull | undefined>;
+  saveClient(client: OAuthClientInformationFull): Promise<void>;
+  saveGrant(kind: GrantKind, key: string, data: any, expiresAt: Date): Promise<void>;
+  getGrant(kind: GrantKind, key: string): Promise<any | null>;
+  // Returns and deletes a grant in one step, so single-use grants can't be replayed.
+  takeGrant(kind: GrantKind, key: string): Promise<any | null>;
+  deleteGrant(kind: GrantKind, key: string): Promise<void>;
+}
+
+export class InMemoryOAuthServerStore implements OAuthServerStore {
+  private clients = new Map<string, OAuthClientInformationFull>();
+  private grants = new Map<string, { data: any, expiresAt: number }>();
+  async getClient(clientId: string) { return this.clients.get(clientId); }
+  async saveClient(client: OAuthClientInformationFull) { this.clients.set(client.client_id, client); }
+  async saveGrant(kind: GrantKind, key: string, data: any, expiresAt: Date) {
+    const now = Date.now();
+    for (const [k, g] of this.grants) if (g.expiresAt < now) this.grants.delete(k);
+    this.grants.set(`${kind}:${key}`, { data, expiresAt: expiresAt.getTime() });
+  }
+  async getGrant(kind: GrantKind, key: string) {
+    const g = this.grants.get(`${kind}:${key}`);
+    return g && g.expiresAt > Date.now() ? g.data : null;
+  }
+  async takeGrant(kind: GrantKind, key: string) {
+    const data = await this.getGrant(kind, key);
+    this.grants.delete(`${kind}:${key}`);
+    return data;
+  }
+  async deleteGrant(kind: GrantKind, key: string) { this.grants.delete(`${kind}:${key}`); }
+}
+
+export class PostgresOAuthServerStore implements OAuthServerStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists oauth_clients (
+        client_id text primary key,
+        info jsonb not null,
+        created_at timestamptz default now()
+      );
+      create table if not exists oauth_grants (
+        kind text not null,
+        key text not null,
+        data jsonb not null,
+        expires_at timestamptz not null,
+        primary key (kind, key)
+      );
+    `);
+  }
+  async getClient(clientId: string) {
+    const { rows } = await this.pool.query(`select info from oauth_clients where client_id=$1`, [clientId]);
+    return rows[0]?.info;
+  }
+  async saveClient(client: OAuthClientInformationFull) {
+    await this.pool.query(
+      `insert into oauth_clients (client_id, info) values ($1,$2)
+       on conflict (client_id) do update set info = excluded.info`,
+      [client.client_id, client]
+    );
+  }
+  async saveGrant(kind: GrantKind, key: string, data: any, expiresAt: Date) {
+    // Each new authorization flow sweeps out expired grants.
+    if (kind === 'pending') await this.pool.query(`delete from oauth_grants where expires_at < now()`);
+    await this.pool.query(
+      `insert into oauth_grants (kind, key, data, expires_at) values ($1,$2,$3,$4)
+       on conflict (kind, key) do update set data = excluded.data, expires_at = excluded.expires_at`,
+      [kind, key, data, expiresAt]
+    );
+  }
+  async getGrant(kind: GrantKind, key: string) {
+    const { rows } = await this.pool.query(
+      `select data from oauth_grants where kind=$1 and key=$2 and expires_at > now()`,
+      [kind, key]
+    );
+    return rows[0]?.data ?? null;
+  }
+  async takeGrant(kind: GrantKind, key: string) {
+    const { rows } = await this.pool.query(
+      `delete from oauth_grants where kind=$1 and key=$2 returning data, expires_at > now() as live`,
+      [kind, key]
+    );
+    return rows[0]?.live ? rows[0].data : null;
+  }
+  async deleteGrant(kind: GrantKind, key: string) {
+    await this.pool.query(`delete from oauth_grants where kind=$1 and key=$2`, [kind, key]);
+  }
+}
@@ -0,0 +1,147 @@
+import { Pool } from 'pg';
+
+export interface BucketResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  used: number;
+}
+
+export interface RateLimitStore {
+  init?(): Promise<void>;
+  // Takes one token from `key`'s bucket, which holds up to `capacity` and refills at `perSecond`.
+  takeToken(key: string, capacity: number, perSecond: number): Promise<BucketResult>;
+  // Counts one call against `key`'s quota for `day` (YYYY-MM-DD, UTC) unless `limit` is reached.
+  consumeQuota(key: string, day: string, limit: number): Promise<QuotaResult>;
+  // Give back what a call took when a later rule refused it.
+  refundToken(key: string, capacity: number): Promise<void>;
+  refundQuota(key: string, day: string): Promise<void>;
+}
+
+function refill(tokens: number, updatedAt: number, now: number, capacity: number, perSecond: number) {
+  return Math.min(capacity, tokens + Math.max(0, now - updatedAt) / 1000 * perSecond);
+}
+
+function take(tokens: number, perSecond: number): { tokens: number } & BucketResult {
+  if (tokens >= 1) return { tokens: tokens - 1, allowed: true, retryAfterMs: 0 };
+  return { tokens, allowed: false, retryAfterMs: Math.ceil((1 - tokens) / perSecond * 1000) };
+}
+
+// How often the in-memory store drops refilled buckets and past days' quotas.
+const SWEEP_INTERVAL_MS = 60_000;
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number, updatedAt: number, capacity: number, perSecond: number }>();
+  private quotas = new Map<string, { day: string, used: number }>();
+  private lastSweep = Date.now();
+
+  async takeToken(key: string, capacity: number, perSecond: number) {
+    const now = Date.now();
+    this.sweep(now);
+    const b = this.buckets.get(key);
+    const { tokens, ...result } = take(b ? refill(b.tokens, b.updatedAt, now, capacity, perSecond) : capacity, perSecond);
+    this.buckets.set(key, { tokens, updatedAt: now, capacity, perSecond });
+    return result;
+  }
+
+  async consumeQuota(key: string, day: string, limit: number) {
+    this.sweep(Date.now(), day);
+    const q = this.quotas.get(key);
+    const used = q?.day === day ? q.used : 0;
+    if (used >= limit) return { allowed: false, used };
+    this.quotas.set(key, { day, used: used + 1 });
+    return { allowed: true, used: used + 1 };
+  }
+
+  async refundToken(key: string, capacity: number) {
+    const b = this.buckets.get(key);
+    if (b) b.tokens = Math.min(capacity, b.tokens + 1);
+  }
+
+  async refundQuota(key: string, day: string) {
+    const q = this.quotas.get(key);
+    if (q?.day === day && q.used > 0) q.used--;
+  }
+
+  // A full bucket is the same as a missing one, and quotas only count for their day.
+  private sweep(now: number, day?: string) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [key, b] of this.buckets) {
+      if (refill(b.tokens, b.updatedAt, now, b.capacity, b.perSecond) >= b.capacity) this.buckets.delete(key);
+    }
+    const today = day ?? new Date(now).toISOString().slice(0, 10);
+    for (const [key, q] of this.quotas) if (q.day !== today) this.quotas.delete(key);
+  }
+}
+
+// Shared across instances, so limits hold for the whole deployment rather than per process.
+export class PostgresRateLimitStore implements RateLimitStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists rate_limit_buckets (
+        key text primary key,
+        tokens double precision not null,
+        updated_at timestamptz not null
+      );
+      create table if not exists rate_limit_quotas (
+        key text not null,
+        day date not null,
+        used integer not null,
+        primary key (key, day)
+      );
+      delete from rate_limit_quotas where day < current_date - 7;
+    `);
+  }
+
+  async takeToken(key: string, capacity: number, perSecond: number) {
+    const client = await this.pool.connect();
+    try {
+      await client.query('begin');
+      // Make sure the row exists so concurrent callers serialize on its lock.
+      await client.query(
+        `insert into rate_limit_buckets (key, tokens, updated_at) values ($1, $2, now()) on conflict (key) do nothing`,
+        [key, capacity]
+      );
+      const { rows } = await client.query(
+        `select tokens, extract(epoch from updated_at) * 1000 as updated_ms, extract(epoch from now()) * 1000 as now_ms
+         from rate_limit_buckets where key = $1 for update`,
+        [key]
+      );
+      const r = rows[0];
+      const { tokens, ...result } = take(refill(r.tokens, Number(r.updated_ms), Number(r.now_ms), capacity, perSecond), perSecond);
+      await client.query(`update rate_limit_buckets set tokens = $2, updated_at = now() where key = $1`, [key, tokens]);
+      await client.query('commit');
+      return result;
+    } catch (e) {
+      await client.query('rollback');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async consumeQuota(key: string, day: string, limit: number) {
+    const { rows } = await this.pool.query(
+      `insert into rate_limit_quotas (key, day, used) values ($1, $2, 1)
+       on conflict (key, day) do update set used = rate_limit_quotas.used + 1 where rate_limit_quotas.used < $3
+       returning used`,
+      [key, day, limit]
+    );
+    if (rows[0]) return { allowed: true, used: rows[0].used };
+    return { allowed: false, used: limit };
+  }
+
+  async refundToken(key: string, capacity: number) {
+    await this.pool.query(`update rate_limit_buckets set tokens = least(tokens + 1, $2) where key = $1`, [key, capacity]);
+  }
+
+  async refundQuota(key: string, day: string) {
+    await this.pool.query(`update rate_limit_quotas set used = used - 1 where key = $1 and day = $2 and used > 0`, [key, day]);
+  }
+}
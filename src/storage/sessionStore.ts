@@ -0,0 +1,108 @@
+import { Pool } from 'pg';
+
+export type SessionTransport = 'streamable_http' | 'sse';
+
+export interface SessionRecord {
+  id: string;
+  transport: SessionTransport;
+  key_id?: string | null; // caller that opened the session; only it may use the session
+  caller?: string | null; // key name, for listings
+  subject?: string | null; // the caller's default subject
+  // The client's initialize params, replayed when another instance resumes the session.
+  client?: { protocolVersion?: string, capabilities?: unknown, clientInfo?: unknown } | null;
+  instance?: string | null; // instance that last served the session
+  created_at?: string;
+  last_seen_at?: string;
+}
+
+export interface SessionStore {
+  init?(): Promise<void>;
+  create(rec: SessionRecord): Promise<void>;
+  get(id: string): Promise<SessionRecord | null>;
+  // Updates last_seen_at; false when the session no longer exists (closed or killed).
+  touch(id: string, instance: string): Promise<boolean>;
+  list(): Promise<SessionRecord[]>;
+  delete(id: string): Promise<boolean>;
+  // Removes sessions idle since before `cutoff`; returns their ids.
+  deleteIdle(cutoff: Date): Promise<string[]>;
+}
+
+export class InMemorySessionStore implements SessionStore {
+  private map = new Map<string, SessionRecord>();
+  async create(rec: SessionRecord) {
+    const now = new Date().toISOString();
+    this.map.set(rec.id, { ...rec, created_at: now, last_seen_at: now });
+  }
+  async get(id: string) {
+    return this.map.get(id) ?? null;
+  }
+  async touch(id: string, instance: string) {
+    const r = this.map.get(id);
+    if (!r) return false;
+    r.last_seen_at = new Date().toISOString();
+    r.instance = instance;
+    return true;
+  }
+  async list() {
+    return [...this.map.values()].sort((a, b) => a.created_at!.localeCompare(b.created_at!));
+  }
+  async delete(id: string) {
+    return this.map.delete(id);
+  }
+  async deleteIdle(cutoff: Date) {
+    const ids = [...this.map.values()].filter(r => Date.parse(r.last_seen_at!) < cutoff.getTime()).map(r => r.id);
+    for (const id of ids) this.map.delete(id);
+    return ids;
+  }
+}
+
+const ts = (col: string) => `to_char(${col} at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as ${col}`;
+
+export class PostgresSessionStore implements SessionStore {
+  private pool: Pool;
+  constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
+  async init() {
+    await this.pool.query(`
+      create table if not exists mcp_sessions (
+        id text primary key,
+        transport text not null,
+        key_id text,
+        caller text,
+        subject text,
+        client jsonb,
+        instance text,
+        created_at timestamptz default now(),
+        last_seen_at timestamptz default now()
+      );
+      create index if not exists mcp_sessions_last_seen_idx on mcp_sessions (last_seen_at);
+    `);
+  }
+  private readonly columns = `id, transport, key_id, caller, subject, client, instance, ${ts('created_at')}, ${ts('last_seen_at')}`;
+  async create(rec: SessionRecord) {
+    await this.pool.query(
+      `insert into mcp_sessions (id, transport, key_id, caller, subject, client, instance) values ($1,$2,$3,$4,$5,$6,$7)
+       on conflict (id) do nothing`,
+      [rec.id, rec.transport, rec.key_id ?? null, rec.caller ?? null, rec.subject ?? null, rec.client ?? null, rec.instance ?? null]
+    );
+  }
+  async get(id: string) {
+    const { rows } = await this.pool.query(`select ${this.columns} from mcp_sessions where id=$1`, [id]);
+    return rows[0] || null;
+  }
+  async touch(id: string, instance: string) {
+    const res = await this.pool.query(`update mcp_sessions set last_seen_at=now(), instance=$2 where id=$1`, [id, instance]);
+    return (res.rowCount ?? 0) > 0;
+  }
+  async list() {
+    const { rows } = await this.pool.query(`select ${this.columns} from mcp_sessions order by created_at`);
+    return rows;
+  }
+  async delete(id: string) {
+    const res = await this.pool.query(`delete from mcp_sessions where id=$1`, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }
+  async deleteIdle(cutoff: Date) {
+    const { rows } = await this.pool.query(`delete from mcp_sessions where last_seen_at < $1 returning id`, [cutoff]);
+    return rows.map(r => r.id as string);
+  }
+}
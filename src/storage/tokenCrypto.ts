@@ -0,0 +1,115 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+// Envelope encryption for stored OAuth tokens. Each row gets its own random data key
+// (DEK) that encrypts the token fields; the DEK is stored wrapped by a configured key
+// (KEK) whose id is kept alongside it. Rotating keys only re-wraps DEKs.
+
+const ALGO = 'aes-256-gcm';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+// Fields of a provider token response that must never be persisted in `raw`.
+const SECRET_FIELDS = ['access_token', 'refresh_token', 'id_token', 'client_secret', 'code_verifier'];
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGO, key, iv);
+  const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ct].map(b => b.toString('base64')).join('.');
+}
+
+function unseal(key: Buffer, payload: string): Buffer {
+  const [iv, tag, ct] = payload.split('.').map(p => Buffer.from(p, 'base64'));
+  const decipher = createDecipheriv(ALGO, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ct), decipher.final()]);
+}
+
+export class KeyRing {
+  private keys = new Map<string, Buffer>();
+  readonly activeId: string | null;
+
+  // `spec` is "id:base64key,id:base64key"; the first entry is the active (newest) key.
+  constructor(spec: string) {
+    const entries = spec.split(',').map(s => s.trim()).filter(Boolean);
+    for (const entry of entries) {
+      const i = entry.indexOf(':');
+      const id = entry.slice(0, i).trim();
+      const key = Buffer.from(entry.slice(i + 1).trim(), 'base64');
+      if (i <= 0 || key.length !== 32) {
+        throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry '${id || entry.slice(0, 8)}': expected id:<32-byte base64 key>`);
+      }
+      this.keys.set(id, key);
+    }
+    this.activeId = entries.length ? entries[0].slice(0, entries[0].indexOf(':')).trim() : null;
+  }
+
+  get enabled() { return this.activeId !== null; }
+
+  wrap(dek: Buffer) {
+    if (!this.activeId) throw new Error('Token encryption is not configured');
+    return { key_id: this.activeId, data_key: seal(this.keys.get(this.activeId)!, dek) };
+  }
+
+  unwrap(keyId: string, dataKey: string) {
+    const kek = this.keys.get(keyId);
+    if (!kek) throw new Error(`Token encrypted with unknown key '${keyId}'; add it to TOKEN_ENCRYPTION_KEYS`);
+    return unseal(kek, dataKey);
+  }
+}
+
+export interface SealedTokenFields {
+  access_token: string;
+  refresh_token: string | null;
+  key_id: string | null;
+  data_key: string | null;
+}
+
+export class TokenCipher {
+  private ring: KeyRing;
+  constructor(ring: KeyRing) { this.ring = ring; }
+
+  get enabled() { return this.ring.enabled; }
+
+  seal(access_token: string, refresh_token?: string | null, dek = randomBytes(32)): SealedTokenFields {
+    if (!this.ring.enabled) return { access_token, refresh_token: refresh_token ?? null, key_id: null, data_key: null };
+    const enc = (v: string) => ENCRYPTED_PREFIX + seal(dek, Buffer.from(v, 'utf8'));
+    return {
+      access_token: enc(access_token),
+      refresh_token: refresh_token ? enc(refresh_token) : null,
+      ...this.ring.wrap(dek)
+    };
+  }
+
+  open(row: SealedTokenFields) {
+    // Rows written before encryption was enabled are still plaintext.
+    if (!row.key_id || !row.data_key) return { access_token: row.access_token, refresh_token: row.refresh_token };
+    const dek = this.ring.unwrap(row.key_id, row.data_key);
+    const dec = (v: string | null) => v && v.startsWith(ENCRYPTED_PREFIX) ? unseal(dek, v.slice(ENCRYPTED_PREFIX.length)).toString('utf8') : v;
+    return { access_token: dec(row.access_token)!, refresh_token: dec(row.refresh_token) };
+  }
+
+  // True when a row is plaintext or wrapped by a key other than the active one.
+  isStale(row: SealedTokenFields) {
+    return this.ring.enabled && row.key_id !== this.ring.activeId;
+  }
+
+  // Moves a row onto the active key: encrypted rows keep their DEK, plaintext rows are sealed.
+  reseal(row: SealedTokenFields): SealedTokenFields {
+    if (!row.key_id || !row.data_key) return this.seal(row.access_token, row.refresh_token);
+    const dek = this.ring.unwrap(row.key_id, row.data_key);
+    return { access_token: row.access_token, refresh_token: row.refresh_token, ...this.ring.wrap(dek) };
+  }
+}
+
+export function scrubRaw(raw: any): any {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw ?? null;
+  const out: Record<string, any> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (!SECRET_FIELDS.includes(k)) out[k] = v;
+  }
+  return out;
+}
+
+export function hasSecrets(raw: any) {
+  return !!raw && typeof raw === 'object' && SECRET_FIELDS.some(k => k in raw);
+}
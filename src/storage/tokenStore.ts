@@ -1,7 +1,9 @@
 import { Pool } from 'pg';
 import { logger } from '../logger.js';
+import { KeyRing, scrubRaw, hasSecrets, SealedTokenFields, TokenCipher } from './tokenCrypto.js';
 
-export type Provider = 'notion';
+// Provider name, e.g. 'notion' or 'github'.
+export type Provider = string;
 
 export interface TokenRecord {
   provider: Provider;
@@ -13,32 +15,121 @@ export interface TokenRecord {
   workspace_id?: string | null;
   workspace_name?: string | null;
   bot_id?: string | null;
+  needs_reconsent?: boolean | null; // refresh token rejected; user must authorize again
+  refreshed_at?: string | null; // last successful refresh; null until the first one
   raw?: any;
   created_at?: string;
   updated_at?: string;
 }
 
+// A stored token without its secrets, for listings.
+export type TokenSummary = Omit<TokenRecord, 'access_token' | 'refresh_token' | 'raw'>;
+
+// An OAuth consent in progress, from /auth/<provider> until its callback.
+export interface OAuthStateRecord {
+  id: string;
+  provider: Provider;
+  subject?: string | null; // store the token under this subject
+  caller?: string | null; // who started the consent
+  continuation?: string | null; // pending MCP client authorization
+  return_to?: string | null; // redirect after the callback
+  code_verifier?: string | null; // PKCE
+  created_at?: string;
+  expires_at: string;
+  used_at?: string | null;
+}
+
+// States are kept this long past expiry so a replay is reported as such, then deleted.
+const STATE_GRACE_MS = 24 * 3600_000;
+
 export interface TokenStore {
   init?(): Promise<void>;
   upsertToken(record: TokenRecord): Promise<void>;
   getToken(provider: Provider, subject?: string): Promise<TokenRecord | null>;
+  // The subject whose token belongs to a provider workspace (e.g. for routing webhook events).
+  subjectForWorkspace(provider: Provider, workspaceId: string): Promise<string | null>;
+  listTokens(provider?: Provider): Promise<TokenSummary[]>;
+  deleteToken(provider: Provider, subject: string): Promise<boolean>;
+  saveOAuthState(state: OAuthStateRecord): Promise<void>;
+  // Marks the state used; returns it as it was before (so `used_at` set means a replay), or null if unknown.
+  consumeOAuthState(id: string): Promise<OAuthStateRecord | null>;
+  // Re-wraps every row with the active encryption key and scrubs secrets from `raw`.
+  reencryptAll?(): Promise<{ total: number, updated: number }>;
 }
 
+type StoredToken = TokenRecord & SealedTokenFields;
+
+const ts = (col: string, as = col) => `case when ${col} is null then null else to_char(${col} at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') end as ${as}`;
+
+const noEncryption = () => new TokenCipher(new KeyRing(''));
+
 export class InMemoryTokenStore implements TokenStore {
-  private map = new Map<string, TokenRecord>();
+  private map = new Map<string, StoredToken>();
+  private states = new Map<string, OAuthStateRecord>();
+  private cipher: TokenCipher;
+  constructor(cipher: TokenCipher = noEncryption()) { this.cipher = cipher; }
   async upsertToken(record: TokenRecord) {
     const key = `${record.provider}:${record.subject}`;
-    this.map.set(key, { ...record, updated_at: new Date().toISOString(), created_at: this.map.get(key)?.created_at ?? new Date().toISOString() });
+    this.map.set(key, {
+      ...record,
+      ...this.cipher.seal(record.access_token, record.refresh_token),
+      raw: scrubRaw(record.raw),
+      updated_at: new Date().toISOString(),
+      created_at: this.map.get(key)?.created_at ?? new Date().toISOString()
+    });
   }
   async getToken(provider: Provider, subject = 'default') {
-    return this.map.get(`${provider}:${subject}`) || null;
+    const row = this.map.get(`${provider}:${subject}`);
+    if (!row) return null;
+    const { key_id, data_key, ...rec } = row;
+    return { ...rec, ...this.cipher.open(row) };
+  }
+  async subjectForWorkspace(provider: Provider, workspaceId: string) {
+    for (const row of this.map.values()) {
+      if (row.provider === provider && row.workspace_id === workspaceId) return row.subject;
+    }
+    return null;
+  }
+  async listTokens(provider?: Provider) {
+    return [...this.map.values()]
+      .filter(r => !provider || r.provider === provider)
+      .map(({ access_token, refresh_token, raw, key_id, data_key, ...summary }) => summary)
+      .sort((a, b) => a.provider.localeCompare(b.provider) || a.subject.localeCompare(b.subject));
+  }
+  async deleteToken(provider: Provider, subject: string) {
+    return this.map.delete(`${provider}:${subject}`);
+  }
+  async saveOAuthState(state: OAuthStateRecord) {
+    const cutoff = Date.now() - STATE_GRACE_MS;
+    for (const [id, s] of this.states) if (Date.parse(s.expires_at) < cutoff) this.states.delete(id);
+    this.states.set(state.id, { ...state, created_at: new Date().toISOString(), used_at: null });
+  }
+  async consumeOAuthState(id: string) {
+    const state = this.states.get(id);
+    if (!state) return null;
+    this.states.set(id, { ...state, used_at: state.used_at ?? new Date().toISOString() });
+    return state;
+  }
+  async reencryptAll() {
+    let updated = 0;
+    for (const [key, row] of this.map) {
+      if (!this.cipher.isStale(row) && !hasSecrets(row.raw)) continue;
+      this.map.set(key, { ...row, ...this.cipher.reseal(row), raw: scrubRaw(row.raw) });
+      updated++;
+    }
+    return { total: this.map.size, updated };
   }
 }
 
 export class PostgresTokenStore implements TokenStore {
   private pool: Pool;
-  constructor(connString: string) {
+  private cipher: TokenCipher;
+  constructor(connString: string, cipher: TokenCipher = noEncryption()) {
     this.pool = new Pool({ connectionString: connString, max: 3 });
+    this.cipher = cipher;
+  }
+  async close() {
+    await this.pool.end();
   }
   async init() {
     await this.pool.query(`
@@ -52,18 +143,39 @@ export class PostgresTokenStore implements TokenStore {
         workspace_id text,
         workspace_name text,
         bot_id text,
+        needs_reconsent boolean not null default false,
+        refreshed_at timestamptz,
+        key_id text,
+        data_key text,
         raw jsonb,
         created_at timestamptz default now(),
         updated_at timestamptz default now(),
         primary key (provider, subject)
       );
+      alter table oauth_tokens add column if not exists needs_reconsent boolean not null default false;
+      alter table oauth_tokens add column if not exists key_id text;
+      alter table oauth_tokens add column if not exists data_key text;
+      alter table oauth_tokens add column if not exists refreshed_at timestamptz;
+      create table if not exists oauth_states (
+        id text primary key,
+        provider text not null,
+        subject text,
+        caller text,
+        continuation text,
+        return_to text,
+        code_verifier text,
+        created_at timestamptz default now(),
+        expires_at timestamptz not null,
+        used_at timestamptz
+      );
     `);
   }
   async upsertToken(record: TokenRecord) {
+    const sealed = this.cipher.seal(record.access_token, record.refresh_token);
     await this.pool.query(
       `insert into oauth_tokens
-        (provider, subject, access_token, refresh_token, expires_at, scope, workspace_id, workspace_name, bot_id, raw)
-       values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+        (provider, subject, access_token, refresh_token, expires_at, scope, workspace_id, workspace_name, bot_id, needs_reconsent, raw, key_id, data_key, refreshed_at)
+       values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14)
        on conflict (provider, subject) do update set
          access_token = excluded.access_token,
          refresh_token = excluded.refresh_token,
@@ -72,19 +184,27 @@ export class PostgresTokenStore implements TokenStore {
          workspace_id = excluded.workspace_id,
          workspace_name = excluded.workspace_name,
          bot_id = excluded.bot_id,
+         needs_reconsent = excluded.needs_reconsent,
          raw = excluded.raw,
+         key_id = excluded.key_id,
+         data_key = excluded.data_key,
+         refreshed_at = excluded.refreshed_at,
          updated_at = now()`,
       [
         record.provider,
         record.subject,
-        record.access_token,
-        record.refresh_token ?? null,
+        sealed.access_token,
+        sealed.refresh_token,
         record.expires_at ? new Date(record.expires_at) : null,
         record.scope ?? null,
         record.workspace_id ?? null,
         record.workspace_name ?? null,
         record.bot_id ?? null,
-        record.raw ?? null
+        record.needs_reconsent ?? false,
+        scrubRaw(record.raw),
+        sealed.key_id,
+        sealed.data_key,
+        record.refreshed_at ? new Date(record.refreshed_at) : null
       ]
     );
   }
@@ -92,12 +212,73 @@ export class PostgresTokenStore implements TokenStore {
     const { rows } = await this.pool.query(
       `select provider, subject, access_token, refresh_token,
               case when expires_at is null then null else to_char(expires_at at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') end as expires_at,
-              scope, workspace_id, workspace_name, bot_id, raw,
+              scope, workspace_id, workspace_name, bot_id, needs_reconsent, raw, key_id, data_key,
+              ${ts('refreshed_at')},
               to_char(created_at at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as created_at,
               to_char(updated_at at time zone 'UTC','YYYY-MM-DD"T"HH24:MI:SS"Z"') as updated_at
        from oauth_tokens where provider=$1 and subject=$2`,
       [provider, subject]
     );
+    if (!rows[0]) return null;
+    const { key_id, data_key, ...rec } = rows[0];
+    return { ...rec, ...this.cipher.open(rows[0]) };
+  }
+  async subjectForWorkspace(provider: Provider, workspaceId: string) {
+    const { rows } = await this.pool.query(
+      `select subject from oauth_tokens where provider=$1 and workspace_id=$2 order by updated_at desc limit 1`,
+      [provider, workspaceId]
+    );
+    return (rows[0]?.subject as string) ?? null;
+  }
+  async listTokens(provider?: Provider) {
+    const { rows } = await this.pool.query(
+      `select provider, subject, ${ts('expires_at')}, scope, workspace_id, workspace_name, bot_id, needs_reconsent,
+              ${ts('refreshed_at')}, ${ts('created_at')}, ${ts('updated_at')}
+       from oauth_tokens where $1::text is null or provider=$1 order by provider, subject`,
+      [provider ?? null]
+    );
+    return rows;
+  }
+  async deleteToken(provider: Provider, subject: string) {
+    const res = await this.pool.query(`delete from oauth_tokens where provider=$1 and subject=$2`, [provider, subject]);
+    return (res.rowCount ?? 0) > 0;
+  }
+  async saveOAuthState(state: OAuthStateRecord) {
+    await this.pool.query(`delete from oauth_states where expires_at < $1`, [new Date(Date.now() - STATE_GRACE_MS)]);
+    await this.pool.query(
+      `insert into oauth_states (id, provider, subject, caller, continuation, return_to, code_verifier, expires_at)
+       values ($1,$2,$3,$4,$5,$6,$7,$8)`,
+      [state.id, state.provider, state.subject ?? null, state.caller ?? null, state.continuation ?? null, state.return_to ?? null, state.code_verifier ?? null, new Date(state.expires_at)]
+    );
+  }
+  async consumeOAuthState(id: string) {
+    // Row-locks the state so two concurrent callbacks can't both see it unused.
+    const { rows } = await this.pool.query(
+      `with prev as (select id, used_at from oauth_states where id=$1 for update)
+       update oauth_states s set used_at = coalesce(s.used_at, now()) from prev where s.id = prev.id
+       returning s.id, s.provider, s.subject, s.caller, s.continuation, s.return_to, s.code_verifier,
+                 ${ts('s.created_at', 'created_at')}, ${ts('s.expires_at', 'expires_at')}, ${ts('prev.used_at', 'used_at')}`,
+      [id]
+    );
     return rows[0] || null;
   }
+  async reencryptAll() {
+    const { rows } = await this.pool.query(
+      `select provider, subject, access_token, refresh_token, key_id, data_key, raw from oauth_tokens`
+    );
+    let updated = 0;
+    for (const row of rows) {
+      if (!this.cipher.isStale(row) && !hasSecrets(row.raw)) continue;
+      const sealed = this.cipher.reseal(row);
+      // Guard on the old key id so a concurrent upsert isn't overwritten with stale ciphertext.
+      const res = await this.pool.query(
+        `update oauth_tokens set access_token=$3, refresh_token=$4, key_id=$5, data_key=$6, raw=$7, updated_at=now()
+         where provider=$1 and subject=$2 and key_id is not distinct from $8`,
+        [row.provider, row.subject, sealed.access_token, sealed.refresh_token, sealed.key_id, sealed.data_key, scrubRaw(row.raw), row.key_id]
+      );
+      updated += res.rowCount ?? 0;
+    }
+    logger.info({ total: rows.length, updated }, 'Re-encrypted OAuth tokens');
+    return { total: rows.length, updated };
+  }
 }
@@ -1,35 +1,219 @@
 import { Pool } from 'pg';
 
+export type UsageOutcome = 'success' | 'error' | 'denied';
+
 export interface UsageRecord {
   provider: string;
   tool_name: string;
   subject?: string | null;
   success: boolean;
+  outcome?: UsageOutcome; // denied: refused by auth or tool policy before running
   latency_ms?: number | null;
   error_message?: string | null;
+  cache?: 'hit' | 'miss' | 'bypass' | null; // for tools that read through a cache
+  created_at?: string;
+}
+
+export interface StatsQuery {
+  from: Date;
+  to: Date; // exclusive
+  bucketSeconds: number;
+  subject?: string;
+  provider?: string;
+  tool?: string; // tool name without the provider prefix
+}
+
+export interface StatsBucket {
+  start: string;
+  calls: number;
+  errors: number;
+  denied: number;
+  error_rate: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
+}
+
+export interface UsageStats {
+  range: { from: string, to: string };
+  bucket_seconds: number;
+  total: number;
+  errors: number;
+  denied: number;
+  error_rate: number;
+  latency: { p50_ms: number | null, p95_ms: number | null, p99_ms: number | null };
+  byProvider: Record<string, number>;
+  byTool: Record<string, number>;
+  byOutcome: Record<string, number>;
+  buckets: StatsBucket[];
+  topErrors: { message: string, count: number }[];
 }
 
 export interface UsageStore {
   init?(): Promise<void>;
   log(rec: UsageRecord): Promise<void>;
-  stats(): Promise<{ total: number, byProvider: Record<string, number>, byTool: Record<string, number> }>;
+  stats(query: StatsQuery): Promise<UsageStats>;
+  // Folds raw rows older than `retentionDays` into daily rollups and deletes them.
+  prune?(retentionDays: number): Promise<{ rolledUp: number }>;
+}
+
+const DAY_MS = 86_400_000;
+const TOP_ERRORS = 10;
+// Error messages are truncated in rollups so similar failures group together.
+const ROLLUP_MESSAGE_LENGTH = 300;
+
+// Continuous percentile with linear interpolation, matching Postgres percentile_cont.
+export function percentile(sorted: number[], p: number): number | null {
+  if (!sorted.length) return null;
+  const pos = p * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+const round = (v: number | null | undefined) => (v === null || v === undefined ? null : Math.round(Number(v) * 10) / 10);
+const rate = (part: number, total: number) => (total ? Math.round(part / total * 10_000) / 10_000 : 0);
+const outcomeOf = (r: UsageRecord): UsageOutcome => r.outcome ?? (r.success ? 'success' : 'error');
+
+function retentionCutoff(retentionDays: number) {
+  // Whole UTC days only, so each rollup row covers a complete day.
+  return new Date(Math.floor((Date.now() - retentionDays * DAY_MS) / DAY_MS) * DAY_MS);
+}
+
+interface Tally { calls: number, errors: number, denied: number, latencies: number[] }
+const emptyTally = (): Tally => ({ calls: 0, errors: 0, denied: 0, latencies: [] });
+
+function bucketStart(t: number, q: StatsQuery) {
+  const size = q.bucketSeconds * 1000;
+  return Math.floor(t / size) * size;
+}
+
+// Shapes aggregated tallies into the response; shared so both stores report identically.
+function buildStats(q: StatsQuery, overall: Tally, buckets: Map<number, Tally>, counts: { provider: string, tool_name: string, outcome: string, calls: number }[], errors: Map<string, number>): UsageStats {
+  const byProvider: Record<string, number> = {};
+  const byTool: Record<string, number> = {};
+  const byOutcome: Record<string, number> = {};
+  for (const c of counts) {
+    byProvider[c.provider] = (byProvider[c.provider] || 0) + c.calls;
+    const key = `${c.provider}:${c.tool_name}`;
+    byTool[key] = (byTool[key] || 0) + c.calls;
+    byOutcome[c.outcome] = (byOutcome[c.outcome] || 0) + c.calls;
+  }
+  const series: StatsBucket[] = [];
+  for (let t = bucketStart(q.from.getTime(), q); t < q.to.getTime(); t += q.bucketSeconds * 1000) {
+    const b = buckets.get(t) ?? emptyTally();
+    const sorted = b.latencies.sort((x, y) => x - y);
+    series.push({
+      start: new Date(t).toISOString(),
+      calls: b.calls,
+      errors: b.errors,
+      denied: b.denied,
+      error_rate: rate(b.errors, b.calls),
+      p50_ms: round(percentile(sorted, 0.5)),
+      p95_ms: round(percentile(sorted, 0.95)),
+      p99_ms: round(percentile(sorted, 0.99))
+    });
+  }
+  const sorted = overall.latencies.sort((x, y) => x - y);
+  return {
+    range: { from: q.from.toISOString(), to: q.to.toISOString() },
+    bucket_seconds: q.bucketSeconds,
+    total: overall.calls,
+    errors: overall.errors,
+    denied: overall.denied,
+    error_rate: rate(overall.errors, overall.calls),
+    latency: { p50_ms: round(percentile(sorted, 0.5)), p95_ms: round(percentile(sorted, 0.95)), p99_ms: round(percentile(sorted, 0.99)) },
+    byProvider,
+    byTool,
+    byOutcome,
+    buckets: series,
+    topErrors: [...errors].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, TOP_ERRORS).map(([message, count]) => ({ message, count }))
+  };
+}
+
+interface RollupRow {
+  day: number; // UTC midnight, epoch ms
+  provider: string;
+  tool_name: string;
+  subject: string;
+  outcome: UsageOutcome;
+  error_message: string;
+  calls: number;
 }
 
 export class InMemoryUsageStore implements UsageStore {
   private arr: UsageRecord[] = [];
-  async log(rec: UsageRecord) { this.arr.push(rec); }
-  async stats() {
-    const byProvider: Record<string, number> = {};
-    const byTool: Record<string, number> = {};
+  private rollups = new Map<string, RollupRow>();
+  async log(rec: UsageRecord) { this.arr.push({ ...rec, created_at: rec.created_at ?? new Date().toISOString() }); }
+
+  private matches(q: StatsQuery, r: { provider: string, tool_name: string, subject?: string | null }) {
+    return (!q.subject || (r.subject || '') === q.subject) && (!q.provider || r.provider === q.provider) && (!q.tool || r.tool_name === q.tool);
+  }
+
+  async stats(q: StatsQuery) {
+    const from = q.from.getTime();
+    const to = q.to.getTime();
+    const overall = emptyTally();
+    const buckets = new Map<number, Tally>();
+    const counts = new Map<string, { provider: string, tool_name: string, outcome: string, calls: number }>();
+    const errors = new Map<string, number>();
+    const add = (t: number, r: { provider: string, tool_name: string }, outcome: UsageOutcome, calls: number, message: string | null, latency?: number | null) => {
+      const bt = bucketStart(t, q);
+      const b = buckets.get(bt) ?? emptyTally();
+      buckets.set(bt, b);
+      for (const tally of [overall, b]) {
+        tally.calls += calls;
+        if (outcome === 'error') tally.errors += calls;
+        if (outcome === 'denied') tally.denied += calls;
+        if (latency !== null && latency !== undefined) tally.latencies.push(latency);
+      }
+      const key = `${r.provider}\u0000${r.tool_name}\u0000${outcome}`;
+      const c = counts.get(key) ?? { provider: r.provider, tool_name: r.tool_name, outcome, calls: 0 };
+      c.calls += calls;
+      counts.set(key, c);
+      if (outcome !== 'success' && message) errors.set(message, (errors.get(message) || 0) + calls);
+    };
     for (const r of this.arr) {
-      byProvider[r.provider] = (byProvider[r.provider] || 0) + 1;
-      const key = `${r.provider}:${r.tool_name}`;
-      byTool[key] = (byTool[key] || 0) + 1;
+      const t = Date.parse(r.created_at!);
+      if (t < from || t >= to || !this.matches(q, r)) continue;
+      add(t, r, outcomeOf(r), 1, r.error_message ?? null, r.latency_ms);
+    }
+    for (const r of this.rollups.values()) {
+      if (r.day < from || r.day >= to || !this.matches(q, r)) continue;
+      add(r.day, r, r.outcome, r.calls, r.error_message || null);
     }
-    return { total: this.arr.length, byProvider, byTool };
+    return buildStats(q, overall, buckets, [...counts.values()], errors);
+  }
+
+  async prune(retentionDays: number) {
+    const cutoff = retentionCutoff(retentionDays).getTime();
+    const keep: UsageRecord[] = [];
+    let rolledUp = 0;
+    for (const r of this.arr) {
+      const t = Date.parse(r.created_at!);
+      if (t >= cutoff) { keep.push(r); continue; }
+      const row: RollupRow = {
+        day: Math.floor(t / DAY_MS) * DAY_MS,
+        provider: r.provider,
+        tool_name: r.tool_name,
+        subject: r.subject || '',
+        outcome: outcomeOf(r),
+        error_message: (r.error_message || '').slice(0, ROLLUP_MESSAGE_LENGTH),
+        calls: 0
+      };
+      const key = [row.day, row.provider, row.tool_name, row.subject, row.outcome, row.error_message].join('\u0000');
+      const existing = this.rollups.get(key) ?? row;
+      existing.calls++;
+      this.rollups.set(key, existing);
+      rolledUp++;
+    }
+    this.arr = keep;
+    return { rolledUp };
   }
 }
 
+const OUTCOME_SQL = `coalesce(outcome, case when success then 'success' else 'error' end)`;
+
 export class PostgresUsageStore implements UsageStore {
   private pool: Pool;
   constructor(conn: string) { this.pool = new Pool({ connectionString: conn, max: 3 }); }
@@ -45,23 +229,118 @@ export class PostgresUsageStore implements UsageStore {
         error_message text,
         created_at timestamptz default now()
       );
+      alter table tool_usage add column if not exists outcome text;
+      alter table tool_usage add column if not exists cache text;
+      create index if not exists tool_usage_created_at_idx on tool_usage (created_at);
+      create table if not exists tool_usage_rollup (
+        day date not null,
+        provider text not null,
+        tool_name text not null,
+        subject text not null default '',
+        outcome text not null,
+        error_message text not null default '',
+        calls integer not null,
+        primary key (day, provider, tool_name, subject, outcome, error_message)
+      );
     `);
   }
   async log(rec: UsageRecord) {
     await this.pool.query(
-      `insert into tool_usage (provider, tool_name, subject, success, latency_ms, error_message)
-       values ($1,$2,$3,$4,$5,$6)`,
-      [rec.provider, rec.tool_name, rec.subject ?? null, rec.success, rec.latency_ms ?? null, rec.error_message ?? null]
+      `insert into tool_usage (provider, tool_name, subject, success, outcome, latency_ms, error_message, cache)
+       values ($1,$2,$3,$4,$5,$6,$7,$8)`,
+      [rec.provider, rec.tool_name, rec.subject ?? null, rec.success, rec.outcome ?? (rec.success ? 'success' : 'error'), rec.latency_ms ?? null, rec.error_message ?? null, rec.cache ?? null]
     );
   }
-  async stats() {
-    const totalRes = await this.pool.query(`select count(*)::int as total from tool_usage`);
-    const provRes = await this.pool.query(`select provider, count(*)::int c from tool_usage group by provider`);
-    const toolRes = await this.pool.query(`select provider||':'||tool_name as key, count(*)::int c from tool_usage group by provider, tool_name`);
-    const byProvider: Record<string, number> = {};
-    for (const r of provRes.rows) byProvider[r.provider] = r.c;
-    const byTool: Record<string, number> = {};
-    for (const r of toolRes.rows) byTool[r.key] = r.c;
-    return { total: totalRes.rows[0].total, byProvider, byTool };
+
+  async stats(q: StatsQuery) {
+    // $1/$2 bound the range and $3 is the bucket size; optional filters follow.
+    const params: any[] = [q.from, q.to, q.bucketSeconds];
+    const filters: string[] = [];
+    if (q.subject) { params.push(q.subject); filters.push(`coalesce(subject, '') = $${params.length}`); }
+    if (q.provider) { params.push(q.provider); filters.push(`provider = $${params.length}`); }
+    if (q.tool) { params.push(q.tool); filters.push(`tool_name = $${params.length}`); }
+    const extra = filters.map(f => ` and ${f}`).join('');
+    const raw = `select *, ${OUTCOME_SQL} as oc from tool_usage where created_at >= $1 and created_at < $2${extra}`;
+    const rollup = `select *, (day::timestamp at time zone 'UTC') as day_ts from tool_usage_rollup
+      where (day::timestamp at time zone 'UTC') >= $1 and (day::timestamp at time zone 'UTC') < $2${extra}`;
+    const bucketOf = (col: string) => `(floor(extract(epoch from ${col}) / $3) * $3 * 1000)::bigint`;
+
+    const [bucketRes, overallRes, countRes, errorRes] = await Promise.all([
+      this.pool.query(`
+        select bucket, sum(calls)::int calls, sum(errors)::int errors, sum(denied)::int denied,
+               max(p50) p50, max(p95) p95, max(p99) p99, sum(latency_count)::int latency_count
+        from (
+          select ${bucketOf('created_at')} bucket, count(*) calls,
+                 count(*) filter (where oc = 'error') errors, count(*) filter (where oc = 'denied') denied,
+                 percentile_cont(0.5) within group (order by latency_ms) p50,
+                 percentile_cont(0.95) within group (order by latency_ms) p95,
+                 percentile_cont(0.99) within group (order by latency_ms) p99,
+                 count(latency_ms) latency_count
+          from (${raw}) r group by 1
+          union all
+          select ${bucketOf('day_ts')}, sum(calls), sum(calls) filter (where outcome = 'error'), sum(calls) filter (where outcome = 'denied'),
+                 null, null, null, 0
+          from (${rollup}) u group by 1
+        ) t group by bucket`, params),
+      this.pool.query(`
+        select percentile_cont(0.5) within group (order by latency_ms) p50,
+               percentile_cont(0.95) within group (order by latency_ms) p95,
+               percentile_cont(0.99) within group (order by latency_ms) p99
+        from (${raw}) r where $3::int > 0`, params), // $3 is unused here but must be typed
+      this.pool.query(`
+        select provider, tool_name, outcome, sum(calls)::int calls from (
+          select provider, tool_name, oc as outcome, count(*) calls from (${raw}) r group by 1, 2, 3
+          union all
+          select provider, tool_name, outcome, sum(calls) from (${rollup}) u group by 1, 2, 3
+        ) t group by 1, 2, 3`, params),
+      this.pool.query(`
+        select message, sum(c)::int count from (
+          select error_message message, count(*) c from (${raw}) r where oc <> 'success' and error_message is not null group by 1
+          union all
+          select error_message, sum(calls) from (${rollup}) u where outcome <> 'success' and error_message <> '' group by 1
+        ) t group by 1 order by 2 desc, 1 limit ${TOP_ERRORS}`, params)
+    ]);
+
+    // Percentiles are computed by Postgres, so the tallies carry counts only and get patched below.
+    const overall = emptyTally();
+    const buckets = new Map<number, Tally>();
+    for (const r of bucketRes.rows) {
+      const t: Tally = { calls: r.calls, errors: r.errors ?? 0, denied: r.denied ?? 0, latencies: [] };
+      buckets.set(Number(r.bucket), t);
+      overall.calls += t.calls;
+      overall.errors += t.errors;
+      overall.denied += t.denied;
+    }
+    const errors = new Map<string, number>(errorRes.rows.map((r: any) => [r.message, r.count]));
+    const stats = buildStats(q, overall, buckets, countRes.rows, errors);
+    const byBucket = new Map(bucketRes.rows.map((r: any) => [new Date(Number(r.bucket)).toISOString(), r]));
+    for (const b of stats.buckets) {
+      const r: any = byBucket.get(b.start);
+      if (r) Object.assign(b, { p50_ms: round(r.p50), p95_ms: round(r.p95), p99_ms: round(r.p99) });
+    }
+    const o = overallRes.rows[0] || {};
+    stats.latency = { p50_ms: round(o.p50), p95_ms: round(o.p95), p99_ms: round(o.p99) };
+    return stats;
+  }
+
+  // One statement: rows are rolled up by whichever replica deletes them, so concurrent prunes can't count a row twice.
+  async prune(retentionDays: number) {
+    const { rows } = await this.pool.query(
+      `with moved as (
+         delete from tool_usage where created_at < $1
+         returning created_at, provider, tool_name, subject, success, outcome, error_message
+       ), rolled as (
+         insert into tool_usage_rollup (day, provider, tool_name, subject, outcome, error_message, calls)
+         select (created_at at time zone 'UTC')::date, provider, tool_name, coalesce(subject, ''), ${OUTCOME_SQL},
+                left(coalesce(error_message, ''), ${ROLLUP_MESSAGE_LENGTH}), count(*)
+         from moved
+         group by 1, 2, 3, 4, 5, 6
+         on conflict (day, provider, tool_name, subject, outcome, error_message)
+         do update set calls = tool_usage_rollup.calls + excluded.calls
+       )
+       select count(*)::int as n from moved`,
+      [retentionCutoff(retentionDays)]
+    );
+    return { rolledUp: rows[0].n as number };
   }
 }
@@ -0,0 +1,8 @@
+import type express from "express";
+
+// Express 4 ignores the promise an async handler returns; this passes its rejection to the error middleware.
+export function asyncHandler(fn: (req: express.Request, res: express.Response, next: express.NextFunction) => Promise<unknown>): express.RequestHandler {
+  return (req, res, next) => {
+    fn(req, res, next).catch(next);
+  };
+}
@@ -1,7 +1,15 @@
+import { logger } from '../logger.js';
+import { outboundRequests, outboundRetries } from '../metrics.js';
+
 export async function sleep(ms: number) {
   return new Promise(res => setTimeout(res, ms));
 }
 
+// Metric label for a URL; the full URL would make label cardinality unbounded.
+function hostOf(url: string) {
+  try { return new URL(url).host; } catch { return 'invalid'; }
+}
+
 export interface RetryOptions {
   retries?: number;
   baseDelayMs?: number;
@@ -19,10 +27,14 @@ export async function httpWithRetry(
   const baseDelay = opts.baseDelayMs ?? 300;
   const maxDelay = opts.maxDelayMs ?? 3000;
 
+  const host = hostOf(url);
   let lastErr: any = null;
   for (let attempt = 0; attempt <= retries; attempt++) {
+    const started = Date.now();
     try {
       const res = await fetch(url, { method, headers, body: body ? JSON.stringify(body) : undefined });
+      outboundRequests.inc({ host, method, status: String(res.status) });
+      logger.debug({ method, host, status: res.status, attempt, ms: Date.now() - started }, 'Outbound request');
       const text = await res.text();
       let json: any = null;
       try { json = text ? JSON.parse(text) : null; } catch { json = { raw: text }; }
@@ -31,17 +43,23 @@ export async function httpWithRetry(
       if ([429, 500, 502, 503, 504].includes(res.status) && attempt < retries) {
         const ra = res.headers.get('retry-after');
         let delay = ra ? parseInt(ra, 10) * 1000 : Math.min(maxDelay, baseDelay * Math.pow(2, attempt) + Math.floor(Math.random()*100));
+        outboundRetries.inc({ host, reason: String(res.status) });
+        logger.warn({ method, host, status: res.status, attempt, delay }, 'Retrying outbound request');
         await sleep(delay);
         continue;
       }
       return { ok: res.ok, status: res.status, json };
     } catch (e) {
       lastErr = e;
+      outboundRequests.inc({ host, method, status: '0' });
       if (attempt < retries) {
         const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt) + Math.floor(Math.random()*100));
+        outboundRetries.inc({ host, reason: 'network' });
+        logger.warn({ method, host, attempt, delay, err: String(e) }, 'Retrying outbound request');
         await sleep(delay);
         continue;
       }
+      logger.warn({ method, host, attempt, err: String(e) }, 'Outbound request failed');
       return { ok: false, status: 0, json: { error: String(lastErr) } };
     }
   }
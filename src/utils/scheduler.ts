@@ -0,0 +1,33 @@
+import { sleep } from './http.js';
+
+/**
+ * Paces calls per key (e.g. per Notion workspace) to at most one every `intervalMs`, queueing
+ * the rest instead of waiting for the API to answer 429. Pacing is per process.
+ */
+export class RequestScheduler {
+  private nextSlot = new Map<string, number>(); // key -> earliest start for the next call
+  private intervalMs: number;
+  private maxWaitMs: number;
+
+  constructor(perSecond: number, maxWaitMs: number) {
+    this.intervalMs = perSecond > 0 ? 1000 / perSecond : 0;
+    this.maxWaitMs = maxWaitMs;
+  }
+
+  async schedule<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    if (!this.intervalMs) return fn();
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(key) ?? 0);
+    if (slot - now > this.maxWaitMs) {
+      throw new Error(`Too many queued requests for '${key}'; try again in ${Math.ceil((slot - now) / 1000)}s`);
+    }
+    this.nextSlot.set(key, slot + this.intervalMs);
+    if (slot > now) await sleep(slot - now);
+    try {
+      return await fn();
+    } finally {
+      // Forget idle keys so the map only holds workspaces with queued calls.
+      if ((this.nextSlot.get(key) ?? 0) <= Date.now()) this.nextSlot.delete(key);
+    }
+  }
+}
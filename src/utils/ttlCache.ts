@@ -0,0 +1,64 @@
+/**
+ * A size-bounded cache whose entries expire after a per-entry TTL. Entries carry tags so a
+ * write can drop everything derived from the objects it touched. Least recently used entries
+ * are evicted first.
+ */
+export class TtlCache<V> {
+  private entries = new Map<string, { value: V, expires: number, tags: string[] }>();
+  private byTag = new Map<string, Set<string>>(); // tag -> keys
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  get size() { return this.entries.size; }
+
+  get(key: string): V | undefined {
+    const e = this.entries.get(key);
+    if (!e) return undefined;
+    if (e.expires <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark as most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, e);
+    return e.value;
+  }
+
+  set(key: string, value: V, ttlMs: number, tags: string[] = []) {
+    if (this.maxEntries <= 0 || ttlMs <= 0) return;
+    this.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttlMs, tags });
+    for (const tag of tags) {
+      let keys = this.byTag.get(tag);
+      if (!keys) this.byTag.set(tag, keys = new Set());
+      keys.add(key);
+    }
+    while (this.entries.size > this.maxEntries) this.delete(this.entries.keys().next().value!);
+  }
+
+  // Drops every entry carrying one of the tags; returns how many went.
+  invalidate(tags: string[]) {
+    let n = 0;
+    for (const tag of tags) {
+      for (const key of [...this.byTag.get(tag) ?? []]) {
+        this.delete(key);
+        n++;
+      }
+    }
+    return n;
+  }
+
+  private delete(key: string) {
+    const e = this.entries.get(key);
+    if (!e) return;
+    this.entries.delete(key);
+    for (const tag of e.tags) {
+      const keys = this.byTag.get(tag);
+      keys?.delete(key);
+      if (keys && !keys.size) this.byTag.delete(tag);
+    }
+  }
+}
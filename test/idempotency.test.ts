@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Idempotency } from "../src/core/idempotency.js";
+import { ToolDeniedError } from "../src/core/policy.js";
+import { InMemoryIdempotencyStore } from "../src/storage/idempotencyStore.js";
+
+const HOUR = 3600_000;
+const ok = (text: string) => ({ content: [{ type: "text" as const, text }] });
+const args = { parent: { page_id: "p1" }, title: "Launch" };
+
+test("the first call claims the key and a repeat gets its result back", async () => {
+  const idem = new Idempotency(new InMemoryIdempotencyStore(), HOUR);
+  assert.equal(await idem.begin("acme", "k1", "notion.createPage", args), undefined);
+  await idem.finish("acme", "k1", ok("created"));
+  assert.deepEqual(await idem.begin("acme", "k1", "notion.createPage", { ...args }), ok("created"));
+  // Keys are per subject.
+  assert.equal(await idem.begin("other", "k1", "notion.createPage", args), undefined);
+});
+
+test("a key still in progress is refused", async () => {
+  const idem = new Idempotency(new InMemoryIdempotencyStore(), HOUR);
+  await idem.begin("acme", "k1", "notion.createPage", args);
+  await assert.rejects(idem.begin("acme", "k1", "notion.createPage", args), (e: Error) => e instanceof ToolDeniedError && /still in progress/.test(e.message));
+});
+
+test("reusing a key for another tool or other arguments is refused", async () => {
+  const idem = new Idempotency(new InMemoryIdempotencyStore(), HOUR);
+  await idem.begin("acme", "k1", "notion.createPage", args);
+  await idem.finish("acme", "k1", ok("created"));
+  await assert.rejects(idem.begin("acme", "k1", "notion.createPage", { ...args, title: "Other" }), /different set of arguments/);
+  await assert.rejects(idem.begin("acme", "k1", "notion.archivePage", args), /different tool \(notion.createPage\)/);
+});
+
+test("a failed call releases the key so it can be retried", async () => {
+  const idem = new Idempotency(new InMemoryIdempotencyStore(), HOUR);
+  await idem.begin("acme", "k1", "notion.createPage", args);
+  await idem.finish("acme", "k1", { ...ok("boom"), isError: true });
+  assert.equal(await idem.begin("acme", "k1", "notion.createPage", args), undefined);
+  await idem.finish("acme", "k1", undefined);
+  assert.equal(await idem.begin("acme", "k1", "notion.createPage", args), undefined);
+});
+
+test("release leaves a finished key alone", async () => {
+  const store = new InMemoryIdempotencyStore();
+  const idem = new Idempotency(store, HOUR);
+  await idem.begin("acme", "k1", "notion.createPage", args);
+  await idem.finish("acme", "k1", ok("created"));
+  await store.release("acme", "k1");
+  assert.deepEqual(await idem.begin("acme", "k1", "notion.createPage", args), ok("created"));
+});
+
+test("abandoned claims and stored results expire", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const idem = new Idempotency(new InMemoryIdempotencyStore(), HOUR);
+  await idem.begin("acme", "pending", "notion.createPage", args);
+  await idem.begin("acme", "done", "notion.createPage", args);
+  await idem.finish("acme", "done", ok("created"));
+  t.mock.timers.tick(5 * 60_000);
+  assert.equal(await idem.begin("acme", "pending", "notion.createPage", args), undefined);
+  assert.deepEqual(await idem.begin("acme", "done", "notion.createPage", args), ok("created"));
+  t.mock.timers.tick(HOUR);
+  assert.equal(await idem.begin("acme", "done", "notion.createPage", args), undefined);
+});
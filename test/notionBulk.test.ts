@@ -0,0 +1,108 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { flattenRow, mapRow, parseCsv, toCsv, toJsonl } from "../src/integrations/notionBulk.js";
+import { coerceProperties, compactSchema } from "../src/integrations/notionProperties.js";
+
+const rt = (s: string) => [{ type: "text", plain_text: s, text: { content: s } }];
+
+const database = {
+  id: "db1",
+  title: rt("Tasks"),
+  properties: {
+    Name: { type: "title", title: {} },
+    Notes: { type: "rich_text", rich_text: {} },
+    Status: { type: "select", select: { options: [{ name: "Done" }, { name: "Todo" }] } },
+    Tags: { type: "multi_select", multi_select: { options: [{ name: "a" }, { name: "b" }] } },
+    Points: { type: "number", number: {} },
+    Shipped: { type: "checkbox", checkbox: {} },
+    Due: { type: "date", date: {} },
+    Owner: { type: "people", people: {} },
+    Score: { type: "formula", formula: {} },
+    Created: { type: "created_time", created_time: {} }
+  }
+};
+const schema = compactSchema(database);
+const columns = Object.keys(schema.properties);
+
+const page = {
+  object: "page",
+  id: "p1",
+  url: "https://www.notion.so/p1",
+  properties: {
+    Name: { type: "title", title: rt('Launch, "v2"') },
+    Notes: { type: "rich_text", rich_text: rt("line one\nline two") },
+    Status: { type: "select", select: { name: "Done" } },
+    Tags: { type: "multi_select", multi_select: [{ name: "a" }, { name: "b" }] },
+    Points: { type: "number", number: 3 },
+    Shipped: { type: "checkbox", checkbox: true },
+    Due: { type: "date", date: { start: "2026-11-01", end: "2026-11-03" } },
+    Owner: { type: "people", people: [{ object: "user", id: "u1", name: "Ana" }] },
+    Score: { type: "formula", formula: { type: "number", number: 9 } },
+    Created: { type: "created_time", created_time: "2026-10-01T00:00:00.000Z" }
+  }
+};
+
+test("parseCsv reads quoted fields, escaped quotes, line breaks and CRLF", () => {
+  const rows = parseCsv('\uFEFFa,b,c\r\n"x, y","say ""hi""","1\n2"\r\n\r\nplain,,\n');
+  assert.deepEqual(rows, [
+    { a: "x, y", b: 'say "hi"', c: "1\n2" },
+    { a: "plain", b: "", c: "" }
+  ]);
+});
+
+test("parseCsv fills short rows and rejects malformed input", () => {
+  assert.deepEqual(parseCsv("a,b\n1"), [{ a: "1", b: "" }]);
+  assert.throws(() => parseCsv('a\n"open'), /unterminated/);
+  assert.throws(() => parseCsv("a,a\n1,2"), /duplicate column 'a'/);
+  assert.throws(() => parseCsv("a\n1,2"), /row 1 has 2 fields/);
+  assert.throws(() => parseCsv(""), /missing header/);
+});
+
+test("toCsv quotes what needs quoting and joins lists", () => {
+  const csv = toCsv(["a", "b", "c", "d"], [{ a: "x,y", b: ["p", "q"], c: null, d: ' "q" ' }]);
+  assert.equal(csv, 'a,b,c,d\r\n"x,y","p, q",," ""q"" "\r\n');
+  assert.deepEqual(parseCsv(csv), [{ a: "x,y", b: "p, q", c: "", d: ' "q" ' }]);
+});
+
+test("flattenRow exports people as ids", () => {
+  const row = flattenRow(page, columns);
+  assert.equal(row.id, "p1");
+  assert.deepEqual(row.Owner, ["u1"]);
+  assert.equal(row.Due, "2026-11-01/2026-11-03");
+});
+
+test("an exported CSV imports again as an update of the same page", () => {
+  const csv = toCsv(["id", "url", ...columns], [flattenRow(page, columns)]);
+  const [row] = parseCsv(csv);
+  const { pageId, properties } = mapRow(row, schema);
+  assert.equal(pageId, "p1");
+  assert.equal("Score" in properties || "Created" in properties || "url" in properties, false);
+  const out = coerceProperties(schema, properties);
+  assert.deepEqual(out.Status, { select: { name: "Done" } });
+  assert.deepEqual(out.Tags, { multi_select: [{ name: "a" }, { name: "b" }] });
+  assert.deepEqual(out.Points, { number: 3 });
+  assert.deepEqual(out.Shipped, { checkbox: true });
+  assert.deepEqual(out.Due, { date: { start: "2026-11-01", end: "2026-11-03" } });
+  assert.deepEqual(out.Owner, { people: [{ id: "u1" }] });
+  assert.equal(out.Name.title.map((t: any) => t.text.content).join(""), 'Launch, "v2"');
+});
+
+test("an exported JSONL row imports again", () => {
+  const row = JSON.parse(toJsonl([flattenRow(page, columns)]).trim());
+  const { pageId, properties } = mapRow(row, schema);
+  assert.equal(pageId, "p1");
+  assert.doesNotThrow(() => coerceProperties(schema, properties));
+});
+
+test("mapRow applies a mapping and skips empty cells", () => {
+  const { pageId, properties } = mapRow({ code: "7", state: "Todo", extra: "x", Tags: "" }, schema, { code: "Points", state: "status", Tags: "Tags" });
+  assert.equal(pageId, undefined);
+  assert.deepEqual(properties, { Points: "7", status: "Todo" });
+});
+
+test("id and url are properties when the database has properties named so", () => {
+  const withUrl = compactSchema({ ...database, properties: { ...database.properties, url: { type: "url", url: {} } } });
+  const { pageId, properties } = mapRow({ id: "p1", url: "https://example.com" }, withUrl);
+  assert.equal(pageId, "p1");
+  assert.deepEqual(properties, { url: "https://example.com" });
+});
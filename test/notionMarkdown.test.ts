@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { markdownToBlocks, MAX_RICH_TEXT_ITEMS, MAX_RICH_TEXT_LENGTH, plainText } from "../src/integrations/notionMarkdown.js";
+
+const text = (blocks: any[]) => blocks.map(b => plainText(b[b.type].rich_text)).join("");
+
+test("long runs are split into items of at most 2000 characters", () => {
+  const [b] = markdownToBlocks("x".repeat(MAX_RICH_TEXT_LENGTH * 2 + 1));
+  assert.deepEqual(b.paragraph.rich_text.map((t: any) => t.text.content.length), [MAX_RICH_TEXT_LENGTH, MAX_RICH_TEXT_LENGTH, 1]);
+});
+
+test("a paragraph with more than 100 rich_text items continues in further paragraphs", () => {
+  const words = Array.from({ length: 130 }, (_, i) => `**w${i}**`).join(" ");
+  const blocks = markdownToBlocks(words);
+  assert.deepEqual(blocks.map(b => b.type), ["paragraph", "paragraph", "paragraph"]);
+  assert.ok(blocks.every(b => b.paragraph.rich_text.length <= MAX_RICH_TEXT_ITEMS));
+  assert.equal(text(blocks), words.replace(/\*\*/g, ""));
+});
+
+test("an oversized code block is split and keeps its language", () => {
+  const blocks = markdownToBlocks("```ts\n" + "y".repeat(MAX_RICH_TEXT_LENGTH * 150) + "\n```");
+  assert.equal(blocks.length, 2);
+  assert.deepEqual(blocks.map(b => [b.code.language, b.code.rich_text.length]), [["typescript", 100], ["typescript", 50]]);
+});
+
+test("a split list item keeps its children on the last part", () => {
+  const item = Array.from({ length: 120 }, (_, i) => `_i${i}_`).join(" ");
+  const blocks = markdownToBlocks(`- ${item}\n  - child`);
+  assert.deepEqual(blocks.map(b => b.type), ["bulleted_list_item", "bulleted_list_item", "bulleted_list_item"]);
+  assert.equal(blocks[0].bulleted_list_item.children, undefined);
+  assert.equal(blocks[2].bulleted_list_item.children[0].bulleted_list_item.rich_text[0].text.content, "child");
+});
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OAuth2Provider } from "../src/core/oauth2Provider.js";
+import { InMemoryTokenStore, type TokenStore } from "../src/storage/tokenStore.js";
+
+class TestProvider extends OAuth2Provider {
+  constructor(name: string, store: TokenStore, stateSecret?: string, stateTtlMs?: number) {
+    super(name, {
+      label: "Test",
+      clientId: "client",
+      clientSecret: "secret",
+      redirectUri: `https://hub.example.com/oauth/${name}/callback`,
+      authorizeUrl: "https://auth.example.com/authorize",
+      tokenUrl: "https://auth.example.com/token",
+      stateSecret,
+      stateTtlMs
+    }, store);
+  }
+}
+
+async function begin(p: OAuth2Provider) {
+  return new URL(await p.beginAuthorization({ subject: "acme" })).searchParams.get("state")!;
+}
+
+const redeem = (p: OAuth2Provider, state: string) => (p as any).redeemState(state);
+
+test("a state is signed, redeemed once, then reported as a replay", async () => {
+  const p = new TestProvider("test", new InMemoryTokenStore(), "shared");
+  const state = await begin(p);
+  assert.match(state, /^[\w-]+\.[\w-]+$/);
+  const first = await redeem(p, state);
+  assert.equal(first.ok, true);
+  assert.equal(first.state.subject, "acme");
+  assert.deepEqual(await redeem(p, state), { ok: false, reason: "This sign-in link was already used." });
+});
+
+test("a replica with the same secret and store can finish the flow", async () => {
+  const store = new InMemoryTokenStore();
+  const state = await begin(new TestProvider("test", store, "shared"));
+  assert.equal((await redeem(new TestProvider("test", store, "shared"), state)).ok, true);
+});
+
+test("tampered, foreign and malformed states are rejected before the store is read", async () => {
+  const store = new InMemoryTokenStore();
+  const p = new TestProvider("test", store, "shared");
+  const state = await begin(p);
+  const [id, sig] = state.split(".");
+  const invalid = { ok: false, reason: "This sign-in link is not valid." };
+  assert.deepEqual(await redeem(p, `${id}.${sig.slice(0, -1)}${sig.endsWith("A") ? "B" : "A"}`), invalid);
+  assert.deepEqual(await redeem(p, `${id}x.${sig}`), invalid);
+  assert.deepEqual(await redeem(p, id), invalid);
+  assert.deepEqual(await redeem(p, ""), invalid);
+  assert.deepEqual(await redeem(new TestProvider("test", store, "other secret"), state), invalid);
+  // The signature covers the provider name, so another provider can't take the state.
+  assert.deepEqual(await redeem(new TestProvider("other", store, "shared"), state), invalid);
+  assert.equal((await redeem(p, state)).ok, true);
+});
+
+test("a validly signed state the store doesn't know is rejected", async () => {
+  const signer = new TestProvider("test", new InMemoryTokenStore(), "shared");
+  const state = await begin(signer);
+  const elsewhere = new TestProvider("test", new InMemoryTokenStore(), "shared");
+  assert.deepEqual(await redeem(elsewhere, state), { ok: false, reason: "This sign-in link is not known to the server." });
+});
+
+test("an expired state is rejected", async (t) => {
+  t.mock.timers.enable({ apis: ["Date"], now: Date.now() });
+  const p = new TestProvider("test", new InMemoryTokenStore(), "shared", 60_000);
+  const state = await begin(p);
+  t.mock.timers.tick(60_001);
+  assert.deepEqual(await redeem(p, state), { ok: false, reason: "This sign-in link has expired." });
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { globMatch, ToolPolicies, type PolicyTool } from "../src/core/policy.js";
+import type { CallerIdentity } from "../src/core/auth.js";
+
+const read = (name: string): PolicyTool => ({ name, annotations: { readOnlyHint: true } });
+const write = (name: string): PolicyTool => ({ name, annotations: { readOnlyHint: false } });
+const caller = (policy?: CallerIdentity["policy"]): CallerIdentity => ({ keyId: "k1", name: "ci", subjects: ["*"], defaultSubject: "acme", policy });
+
+test("globMatch matches whole names and treats only * as special", () => {
+  assert.equal(globMatch("notion.*", "notion.search"), true);
+  assert.equal(globMatch("notion.*", "github.search"), false);
+  assert.equal(globMatch("*.create*", "notion.createPage"), true);
+  assert.equal(globMatch("notion.search", "notion.searchAll"), false);
+  assert.equal(globMatch("notion.search", "notionXsearch"), false);
+  assert.equal(globMatch("a+b(c)?", "a+b(c)?"), true);
+  assert.equal(globMatch("*", ""), true);
+});
+
+test("the last matching rule wins and ! denies", () => {
+  const policies = new ToolPolicies({ default: { tools: ["notion.*", "!notion.archive*", "notion.archiveBlock"] }, tenants: {} });
+  assert.equal(policies.isVisible(read("notion.search"), undefined), true);
+  assert.equal(policies.isVisible(write("notion.archivePage"), undefined), false);
+  assert.equal(policies.isVisible(write("notion.archiveBlock"), undefined), true);
+  assert.equal(policies.isVisible(read("github.search"), undefined), false);
+});
+
+test("with only deny rules everything else stays allowed", () => {
+  const policies = new ToolPolicies({ default: { tools: ["!github.*"] }, tenants: {} });
+  assert.equal(policies.isVisible(read("notion.search"), undefined), true);
+  assert.equal(policies.isVisible(read("github.search"), undefined), false);
+  assert.equal(new ToolPolicies({ default: { tools: [] }, tenants: {} }).isVisible(read("github.search"), undefined), true);
+});
+
+test("a tool must pass the default, tenant and key rules", () => {
+  const policies = new ToolPolicies({ default: { tools: ["notion.*"] }, tenants: { acme: { tools: ["!notion.createPage"] } } });
+  const identity = caller({ tools: ["notion.search", "notion.createPage", "notion.getPage"] });
+  assert.deepEqual(policies.check(read("notion.search"), identity, "acme", {}), { allowed: true, confirm: false });
+  assert.deepEqual(policies.check(write("notion.createPage"), identity, "acme", {}), { allowed: false, reason: "not in the allowed tools" });
+  assert.deepEqual(policies.check(write("notion.createPage"), identity, "other", {}), { allowed: true, confirm: false });
+  assert.deepEqual(policies.check(write("notion.updatePage"), identity, "other", {}), { allowed: false, reason: "not in the allowed tools" });
+});
+
+test("read-only mode denies writes and constraints check argument values", () => {
+  const policies = new ToolPolicies({ default: { constraints: { "notion.create*": { "parent.page_id": ["abc*"] } } }, tenants: { ro: { read_only: true } } });
+  assert.deepEqual(policies.check(write("notion.createPage"), undefined, "ro", {}), { allowed: false, reason: "read-only mode" });
+  assert.deepEqual(policies.check(write("notion.createPage"), undefined, "acme", { parent: { page_id: "abc123" } }), { allowed: true, confirm: false });
+  assert.equal(policies.check(write("notion.createPage"), undefined, "acme", { parent: { page_id: "xyz" } }).allowed, false);
+  assert.equal(policies.check(write("notion.createPage"), undefined, "acme", {}).allowed, false);
+});
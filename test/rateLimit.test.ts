@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { loadRateLimitFile, RateLimiter, ruleId } from "../src/core/rateLimit.js";
+import { InMemoryRateLimitStore } from "../src/storage/rateLimitStore.js";
+import type { CallerIdentity } from "../src/core/auth.js";
+
+const identity: CallerIdentity = { keyId: "k1", name: "ci", subjects: ["*"], defaultSubject: "default" };
+const day = "2026-10-19";
+
+test("a token bucket allows a burst, then refuses with a retry time", async () => {
+  const store = new InMemoryRateLimitStore();
+  for (let i = 0; i < 3; i++) assert.equal((await store.takeToken("b", 3, 1)).allowed, true);
+  const refused = await store.takeToken("b", 3, 1);
+  assert.equal(refused.allowed, false);
+  assert.ok(refused.retryAfterMs > 0 && refused.retryAfterMs <= 1000);
+  assert.equal((await store.takeToken("other", 3, 1)).allowed, true);
+});
+
+test("a quota counts per day and stops at its limit", async () => {
+  const store = new InMemoryRateLimitStore();
+  assert.deepEqual(await store.consumeQuota("q", day, 2), { allowed: true, used: 1 });
+  assert.deepEqual(await store.consumeQuota("q", day, 2), { allowed: true, used: 2 });
+  assert.deepEqual(await store.consumeQuota("q", day, 2), { allowed: false, used: 2 });
+  assert.deepEqual(await store.consumeQuota("q", "2026-10-20", 2), { allowed: true, used: 1 });
+});
+
+test("refunds give back a token and a quota count", async () => {
+  const store = new InMemoryRateLimitStore();
+  await store.takeToken("b", 1, 0.001);
+  await store.refundToken("b", 1);
+  assert.equal((await store.takeToken("b", 1, 0.001)).allowed, true);
+  await store.consumeQuota("q", day, 1);
+  await store.refundQuota("q", day);
+  assert.equal((await store.consumeQuota("q", day, 1)).allowed, true);
+});
+
+test("a call refused by one rule doesn't use up the others", async () => {
+  const limiter = new RateLimiter([
+    { scope: "key", per_minute: 2 },
+    { scope: "tool", tools: ["notion.create*"], per_minute: 1 },
+    { scope: "subject", daily_quota: 1 }
+  ], new InMemoryRateLimitStore());
+  await limiter.check(identity, "a", "notion.createPage");
+  await assert.rejects(limiter.check(identity, "a", "notion.createPage"), /tool 'notion.createPage'/);
+  await assert.rejects(limiter.check(identity, "a", "notion.search"), /Daily quota of 1/);
+  await limiter.check(identity, "b", "notion.search");
+});
+
+test("counters follow a rule, not its position", async () => {
+  const store = new InMemoryRateLimitStore();
+  const rule = { scope: "key" as const, per_minute: 1 };
+  await new RateLimiter([rule], store).check(identity, "default", "notion.search");
+  const reordered = new RateLimiter([{ scope: "subject", daily_quota: 10 }, { ...rule, per_minute: 2, burst: 1 }], store);
+  await assert.rejects(reordered.check(identity, "default", "notion.search"), /calls per minute/);
+  assert.equal(ruleId({ scope: "tool", tools: ["a", "b"], per_minute: 1 }), ruleId({ scope: "tool", tools: ["b", "a"], daily_quota: 5 }));
+  assert.equal(ruleId({ id: "writes", scope: "tool", per_minute: 1 }), "writes");
+});
+
+test("rules sharing counters need an id", () => {
+  const dir = mkdtempSync(join(tmpdir(), "limits-"));
+  const file = join(dir, "limits.json");
+  writeFileSync(file, JSON.stringify({ limits: [{ scope: "key", per_minute: 60 }, { scope: "key", per_minute: 600, burst: 100 }] }));
+  assert.throws(() => loadRateLimitFile(file), /limits\.1: shares its counters with limits\.0/);
+  writeFileSync(file, JSON.stringify({ limits: [{ scope: "key", per_minute: 60 }, { id: "burst", scope: "key", per_minute: 600, burst: 100 }] }));
+  assert.equal(loadRateLimitFile(file).length, 2);
+});
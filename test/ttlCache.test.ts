@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TtlCache } from "../src/utils/ttlCache.js";
+
+test("invalidate drops every entry carrying one of the tags", () => {
+  const cache = new TtlCache<string>(10);
+  cache.set("page:p1", "a", 60_000, ["p1"]);
+  cache.set("list:db1", "b", 60_000, ["db1", "p1", "p2"]);
+  cache.set("page:p2", "c", 60_000, ["p2"]);
+  cache.set("page:p3", "d", 60_000, ["p3"]);
+  assert.equal(cache.invalidate(["p1"]), 2);
+  assert.equal(cache.get("page:p1"), undefined);
+  assert.equal(cache.get("list:db1"), undefined);
+  assert.equal(cache.get("page:p2"), "c");
+  assert.equal(cache.invalidate(["p1", "missing"]), 0);
+  assert.equal(cache.invalidate(["p2", "p3"]), 2);
+  assert.equal(cache.size, 0);
+});
+
+test("replacing an entry drops its old tags", () => {
+  const cache = new TtlCache<string>(10);
+  cache.set("k", "old", 60_000, ["a"]);
+  cache.set("k", "new", 60_000, ["b"]);
+  assert.equal(cache.invalidate(["a"]), 0);
+  assert.equal(cache.get("k"), "new");
+  assert.equal(cache.invalidate(["b"]), 1);
+});
+
+test("evicted and expired entries leave no tags behind", (t) => {
+  t.mock.timers.enable({ apis: ["Date"] });
+  const cache = new TtlCache<string>(2);
+  cache.set("a", "1", 60_000, ["t"]);
+  cache.set("b", "2", 60_000, ["t"]);
+  cache.get("a");
+  cache.set("c", "3", 60_000, ["u"]);
+  assert.equal(cache.get("b"), undefined);
+  assert.equal(cache.invalidate(["t"]), 1);
+  cache.set("d", "4", 1000, ["v"]);
+  t.mock.timers.tick(1000);
+  assert.equal(cache.get("d"), undefined);
+  assert.equal(cache.invalidate(["v"]), 0);
+});
+
+test("nothing is stored without room or a TTL", () => {
+  const cache = new TtlCache<string>(0);
+  cache.set("a", "1", 60_000, ["t"]);
+  assert.equal(cache.get("a"), undefined);
+  const timed = new TtlCache<string>(5);
+  timed.set("a", "1", 0, ["t"]);
+  assert.equal(timed.size, 0);
+});